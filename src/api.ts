@@ -1,6 +1,7 @@
-import { fetch } from 'undici';
-import pRetry from 'p-retry';
+import { fetch, type Response } from 'undici';
+import pRetry, { AbortError } from 'p-retry';
 import pLimit from 'p-limit';
+import PQueue from 'p-queue';
 import type { RedmineConfig, RetryConfig } from './config.js';
 
 export interface RedmineIssue {
@@ -15,30 +16,95 @@ export interface RedmineIssue {
   updated_on: string;
   project: { id: number; name: string };
   tracker: { id: number; name: string };
+  fixed_version?: { id: number; name: string };
+  category?: { id: number; name: string };
+  parent?: { id: number };
+  start_date?: string | null;
+  due_date?: string | null;
+  estimated_hours?: number | null;
+  spent_hours?: number;
+  done_ratio?: number;
+  closed_on?: string | null;
+  is_private?: boolean;
+  watchers?: Array<{ id: number; name: string }>;
+  custom_fields?: RedmineCustomField[];
   journals?: RedmineJournal[];
   relations?: RedmineRelation[];
   attachments?: RedmineAttachment[];
+  children?: RedmineIssueChild[];
+  /**
+   * Filled by `getIssue` for the `time_entries` include, which Redmine itself does
+   * not offer.
+   */
+  time_entries?: RedmineTimeEntry[];
+}
+
+/**
+ * Entry of `include=children`; Redmine nests the whole subtree.
+ */
+export interface RedmineIssueChild {
+  id: number;
+  subject: string;
+  tracker?: { id: number; name: string };
+  children?: RedmineIssueChild[];
+}
+
+export interface RedmineCustomField {
+  id: number;
+  name: string;
+  multiple?: boolean;
+  value: string | string[] | null;
 }
 
 export interface RedmineJournal {
   id: number;
   user: { id: number; name: string };
   notes?: string;
+  private_notes?: boolean;
   created_on: string;
-  details?: Array<{
-    name: string;
-    old_value: string;
-    new_value: string;
-  }>;
+  details?: RedmineJournalDetail[];
+}
+
+export interface RedmineJournalDetail {
+  property: 'attr' | 'cf' | 'attachment' | 'relation' | string;
+  name: string;
+  old_value?: string | null;
+  new_value?: string | null;
 }
 
 export interface RedmineRelation {
   id: number;
+  issue_id?: number;
   issue_to_id: number;
   relation_type: string;
   delay?: number;
 }
 
+export interface RedmineTimeEntry {
+  id: number;
+  project: { id: number; name: string };
+  issue?: { id: number };
+  user: { id: number; name: string };
+  activity: { id: number; name: string };
+  hours: number;
+  comments: string;
+  spent_on: string;
+  created_on: string;
+  updated_on: string;
+}
+
+/**
+ * Attributes for `POST /time_entries.json`. Without an activity, Redmine uses its
+ * default activity.
+ */
+export interface RedmineTimeEntryCreate {
+  issue_id: number;
+  hours: number;
+  activity_id?: number;
+  comments?: string;
+  spent_on?: string;
+}
+
 export interface RedmineAttachment {
   id: number;
   filename: string;
@@ -49,6 +115,65 @@ export interface RedmineAttachment {
   content_url?: string;
 }
 
+/**
+ * Includes the `/issues.json` list endpoint can embed; everything else (journals,
+ * children, watchers) is only available from the single-issue endpoint.
+ */
+export const ISSUE_LIST_INCLUDES = ['attachments', 'relations'];
+
+/**
+ * Writable issue attributes for `PUT /issues/:id.json`. Notes become a new journal.
+ */
+export interface RedmineIssueUpdate {
+  notes?: string;
+  private_notes?: boolean;
+  subject?: string;
+  description?: string;
+  status_id?: number;
+  priority_id?: number;
+  assigned_to_id?: number | '';
+  fixed_version_id?: number | '';
+  done_ratio?: number;
+}
+
+/**
+ * Attributes for `POST /issues.json`. Custom fields are set by ID.
+ */
+export interface RedmineIssueCreate {
+  project_id: number;
+  subject: string;
+  description?: string;
+  tracker_id?: number;
+  status_id?: number;
+  priority_id?: number;
+  assigned_to_id?: number;
+  parent_issue_id?: number;
+  fixed_version_id?: number;
+  category_id?: number;
+  start_date?: string;
+  due_date?: string;
+  estimated_hours?: number;
+  done_ratio?: number;
+  is_private?: boolean;
+  custom_fields?: Array<{ id: number; value: string | string[] }>;
+}
+
+export interface RedmineSearchResult {
+  id: number;
+  title: string;
+  type: string;
+  url: string;
+  description: string;
+  datetime: string;
+}
+
+export interface RedmineSearchResponse {
+  results: RedmineSearchResult[];
+  total_count: number;
+  offset: number;
+  limit: number;
+}
+
 export interface RedmineIssueResponse {
   issue: RedmineIssue;
 }
@@ -70,6 +195,38 @@ export interface RedmineProjectResponse {
   };
 }
 
+export interface RedmineNamedEntity {
+  id: number;
+  name: string;
+}
+
+export interface RedmineUser {
+  id: number;
+  login: string;
+  firstname: string;
+  lastname: string;
+}
+
+export interface RedmineMembership {
+  id: number;
+  project: RedmineNamedEntity;
+  user?: RedmineNamedEntity;
+  group?: RedmineNamedEntity;
+  roles: RedmineNamedEntity[];
+}
+
+/**
+ * Lookup tables used to turn IDs in journal details and CLI arguments into names and back.
+ */
+export interface RedmineEnumerations {
+  statuses: RedmineNamedEntity[];
+  trackers: RedmineNamedEntity[];
+  priorities: RedmineNamedEntity[];
+  users: RedmineNamedEntity[];
+  versions: RedmineNamedEntity[];
+  categories: RedmineNamedEntity[];
+}
+
 export class RedmineApiError extends Error {
   constructor(
     message: string,
@@ -81,22 +238,128 @@ export class RedmineApiError extends Error {
   }
 }
 
+/**
+ * A field value that cannot be sent to Redmine; reported as a validation error.
+ */
+export class InvalidFieldError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidFieldError';
+  }
+}
+
+export type RequestFailure = 'invalid' | 'not-found' | 'rejected' | 'unreachable';
+
+export interface RequestFailureMessages {
+  /**
+   * Prefix for errors without a more specific message, e.g. `Failed to push issue 5`.
+   */
+  failed: string;
+  /**
+   * Prefix for validation errors Redmine answers with 422.
+   */
+  rejected: string;
+  /**
+   * Issue the request was about; a 404 then reports the issue as not found.
+   */
+  issueId?: number;
+}
+
+/**
+ * Sorts an error from a request into bad arguments, a missing issue, a request
+ * Redmine refused, or Redmine being unreachable, with a message to show for it.
+ */
+export function describeRequestFailure(
+  error: unknown,
+  messages: RequestFailureMessages & { issueId: number }
+): { failure: RequestFailure; message: string };
+export function describeRequestFailure(
+  error: unknown,
+  messages: RequestFailureMessages
+): { failure: Exclude<RequestFailure, 'not-found'>; message: string };
+export function describeRequestFailure(
+  error: unknown,
+  messages: RequestFailureMessages
+): { failure: RequestFailure; message: string } {
+  const reason = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof InvalidFieldError) {
+    return { failure: 'invalid', message: reason };
+  }
+  if (!(error instanceof RedmineApiError) || error.status === undefined) {
+    return { failure: 'unreachable', message: `${messages.failed}: ${reason}` };
+  }
+  if (error.status === 404 && messages.issueId !== undefined) {
+    return { failure: 'not-found', message: `Issue ${messages.issueId} not found` };
+  }
+  if (error.status === 422) {
+    return { failure: 'rejected', message: `${messages.rejected}: ${reason}` };
+  }
+  return { failure: 'rejected', message: `${messages.failed}: ${reason}` };
+}
+
+export interface RedmineApiClientOptions {
+  requestsPerSecond?: number;
+}
+
+/**
+ * Turns a request rate into a p-queue interval. Rates below one request per
+ * second stretch the interval instead, since the cap must be a whole number.
+ */
+export function getRateLimit(requestsPerSecond: number): { interval: number; intervalCap: number } {
+  if (!Number.isFinite(requestsPerSecond) || requestsPerSecond <= 0) {
+    throw new Error(`Invalid rate limit ${requestsPerSecond}: expected a positive number`);
+  }
+  const intervalCap = Math.max(1, Math.floor(requestsPerSecond));
+  return { interval: Math.round((1000 * intervalCap) / requestsPerSecond), intervalCap };
+}
+
 export class RedmineApiClient {
   private readonly baseUrl: string;
   private readonly apiAccessToken: string;
   private readonly retryConfig: RetryConfig;
   private readonly concurrencyLimit: pLimit.Limit;
-
-  constructor(config: RedmineConfig) {
+  private readonly rateLimiter: PQueue | null;
+  private readonly enumerationsCache = new Map<number, Promise<RedmineEnumerations>>();
+  private readonly parentCache = new Map<
+    number,
+    { include: string[]; issue: Promise<RedmineIssue> }
+  >();
+
+  constructor(config: RedmineConfig, options: RedmineApiClientOptions = {}) {
     this.baseUrl = config.baseUrl.replace(/\/$/, '');
     this.apiAccessToken = config.apiAccessToken;
     this.retryConfig = config.defaults.retry;
     this.concurrencyLimit = pLimit(config.defaults.concurrency);
+
+    const requestsPerSecond = options.requestsPerSecond ?? config.defaults.requestsPerSecond;
+    this.rateLimiter =
+      requestsPerSecond !== undefined ? new PQueue(getRateLimit(requestsPerSecond)) : null;
+  }
+
+  private async throttledFetch(url: string, init: RequestInit) {
+    if (!this.rateLimiter) {
+      return fetch(url, init);
+    }
+    return this.rateLimiter.add(() => fetch(url, init), { throwOnTimeout: true });
   }
 
   private async request<T>(path: string, options: RequestInit = {}): Promise<T> {
-    const url = `${this.baseUrl}${path}`;
+    return this.send(`${this.baseUrl}${path}`, options, async (response) => {
+      const contentType = response.headers.get('content-type');
+      if (contentType && contentType.includes('application/json')) {
+        return response.json() as Promise<T>;
+      }
 
+      return response.text() as unknown as T;
+    });
+  }
+
+  private async send<T>(
+    url: string,
+    options: RequestInit,
+    readBody: (response: Response) => Promise<T>
+  ): Promise<T> {
     const headers = {
       'X-Redmine-API-Key': this.apiAccessToken,
       'Content-Type': 'application/json',
@@ -104,7 +367,7 @@ export class RedmineApiClient {
     };
 
     const attempt = async (): Promise<T> => {
-      const response = await fetch(url, {
+      const response = await this.throttledFetch(url, {
         ...options,
         headers,
       });
@@ -121,15 +384,17 @@ export class RedmineApiClient {
           // Ignore JSON parsing errors for error response
         }
 
-        throw new RedmineApiError(errorMessage, response.status);
-      }
+        const error = new RedmineApiError(errorMessage, response.status);
 
-      const contentType = response.headers.get('content-type');
-      if (contentType && contentType.includes('application/json')) {
-        return response.json() as Promise<T>;
+        // Client errors will not succeed on retry, except for rate limiting
+        if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+          throw new AbortError(error);
+        }
+
+        throw error;
       }
 
-      return response.text() as unknown as T;
+      return readBody(response);
     };
 
     return pRetry(attempt, {
@@ -145,6 +410,16 @@ export class RedmineApiClient {
     });
   }
 
+  /**
+   * Downloads an attachment from its `content_url`, sharing the client's retry
+   * policy and concurrency limit.
+   */
+  async downloadAttachment(contentUrl: string): Promise<Buffer> {
+    return this.concurrencyLimit(() =>
+      this.send(contentUrl, {}, async (response) => Buffer.from(await response.arrayBuffer()))
+    );
+  }
+
   async checkConnectivity(): Promise<boolean> {
     try {
       await this.request<RedmineProjectResponse>('/projects.json?limit=1');
@@ -164,13 +439,90 @@ export class RedmineApiClient {
   }
 
   async getIssue(issueId: number, include?: string[]): Promise<RedmineIssueResponse> {
+    // Time entries have their own endpoint and are fetched after the issue
+    const issueIncludes = include?.filter((name) => name !== 'time_entries') ?? [];
     const params = new URLSearchParams();
-    if (include && include.length > 0) {
-      params.append('include', include.join(','));
+    if (issueIncludes.length > 0) {
+      params.append('include', issueIncludes.join(','));
     }
 
     const path = `/issues/${issueId}.json${params.toString() ? `?${params.toString()}` : ''}`;
-    return this.request<RedmineIssueResponse>(path);
+    const response = await this.request<RedmineIssueResponse>(path);
+
+    if (include?.includes('time_entries')) {
+      response.issue.time_entries = await this.getIssueTimeEntries(issueId).catch(
+        (error: unknown) => {
+          // Projects without the time tracking module refuse the request
+          if (error instanceof RedmineApiError && error.status === 403) {
+            return [];
+          }
+          throw error;
+        }
+      );
+    }
+
+    return response;
+  }
+
+  async getIssueTimeEntries(issueId: number): Promise<RedmineTimeEntry[]> {
+    const timeEntries: RedmineTimeEntry[] = [];
+    let offset = 0;
+    let totalCount = Infinity;
+
+    while (timeEntries.length < totalCount) {
+      const response = await this.request<{
+        time_entries: RedmineTimeEntry[];
+        total_count: number;
+      }>(`/time_entries.json?issue_id=${issueId}&limit=100&offset=${offset}`);
+
+      timeEntries.push(...response.time_entries);
+      totalCount = response.total_count;
+      offset += 100;
+
+      if (response.time_entries.length === 0) {
+        break;
+      }
+    }
+
+    return timeEntries;
+  }
+
+  async createTimeEntry(timeEntry: RedmineTimeEntryCreate): Promise<RedmineTimeEntry> {
+    const response = await this.request<{ time_entry: RedmineTimeEntry }>('/time_entries.json', {
+      method: 'POST',
+      body: JSON.stringify({ time_entry: timeEntry }),
+    });
+    return response.time_entry;
+  }
+
+  async updateIssue(issueId: number, update: RedmineIssueUpdate): Promise<void> {
+    await this.request<unknown>(`/issues/${issueId}.json`, {
+      method: 'PUT',
+      body: JSON.stringify({ issue: update }),
+    });
+  }
+
+  async createIssue(issue: RedmineIssueCreate): Promise<RedmineIssue> {
+    const response = await this.request<RedmineIssueResponse>('/issues.json', {
+      method: 'POST',
+      body: JSON.stringify({ issue }),
+    });
+    return response.issue;
+  }
+
+  /**
+   * Full-text issue search through `/search.json`, optionally scoped to a project.
+   */
+  async searchIssues(
+    query: string,
+    options: { projectId?: number; limit?: number; offset?: number } = {}
+  ): Promise<RedmineSearchResponse> {
+    const params = new URLSearchParams({ q: query, issues: '1' });
+    params.append('limit', (options.limit ?? 25).toString());
+    params.append('offset', (options.offset ?? 0).toString());
+
+    const scope = options.projectId ? `/projects/${options.projectId}` : '';
+    return this.request<RedmineSearchResponse>(`${scope}/search.json?${params.toString()}`);
   }
 
   async getIssues(
@@ -287,4 +639,177 @@ export class RedmineApiClient {
     const pageResults = await Promise.all(pagePromises);
     return pageResults.flat();
   }
+
+  /**
+   * The user the API key belongs to.
+   */
+  async getCurrentUser(): Promise<RedmineUser> {
+    const response = await this.request<{ user: RedmineUser }>('/users/current.json');
+    return response.user;
+  }
+
+  /**
+   * Issue custom fields enabled for a project, readable without admin rights.
+   */
+  async getProjectIssueCustomFields(projectId: number): Promise<RedmineNamedEntity[]> {
+    const response = await this.request<{
+      project: { issue_custom_fields?: RedmineNamedEntity[] };
+    }>(`/projects/${projectId}.json?include=issue_custom_fields`);
+    return response.project.issue_custom_fields ?? [];
+  }
+
+  async getIssueStatuses(): Promise<RedmineNamedEntity[]> {
+    const response = await this.request<{ issue_statuses: RedmineNamedEntity[] }>(
+      '/issue_statuses.json'
+    );
+    return response.issue_statuses;
+  }
+
+  async getTrackers(): Promise<RedmineNamedEntity[]> {
+    const response = await this.request<{ trackers: RedmineNamedEntity[] }>('/trackers.json');
+    return response.trackers;
+  }
+
+  async getIssuePriorities(): Promise<RedmineNamedEntity[]> {
+    const response = await this.request<{ issue_priorities: RedmineNamedEntity[] }>(
+      '/enumerations/issue_priorities.json'
+    );
+    return response.issue_priorities;
+  }
+
+  async getTimeEntryActivities(): Promise<RedmineNamedEntity[]> {
+    const response = await this.request<{ time_entry_activities: RedmineNamedEntity[] }>(
+      '/enumerations/time_entry_activities.json'
+    );
+    return response.time_entry_activities;
+  }
+
+  async getProjectMemberships(projectId: number): Promise<RedmineMembership[]> {
+    const memberships: RedmineMembership[] = [];
+    let offset = 0;
+    let totalCount = Infinity;
+
+    while (memberships.length < totalCount) {
+      const response = await this.request<{
+        memberships: RedmineMembership[];
+        total_count: number;
+      }>(`/projects/${projectId}/memberships.json?limit=100&offset=${offset}`);
+
+      memberships.push(...response.memberships);
+      totalCount = response.total_count;
+      offset += 100;
+
+      if (response.memberships.length === 0) {
+        break;
+      }
+    }
+
+    return memberships;
+  }
+
+  async getVersions(projectId: number): Promise<RedmineNamedEntity[]> {
+    const response = await this.request<{ versions: RedmineNamedEntity[] }>(
+      `/projects/${projectId}/versions.json`
+    );
+    return response.versions;
+  }
+
+  async getIssueCategories(projectId: number): Promise<RedmineNamedEntity[]> {
+    const response = await this.request<{ issue_categories: RedmineNamedEntity[] }>(
+      `/projects/${projectId}/issue_categories.json`
+    );
+    return response.issue_categories;
+  }
+
+  /**
+   * Drops a cached request once it fails, so the next call asks Redmine again instead
+   * of repeating the error for the life of the client.
+   */
+  private evictOnFailure<V>(
+    cache: Map<number, V>,
+    key: number,
+    value: V,
+    promise: Promise<unknown>
+  ): void {
+    promise.catch(() => {
+      if (cache.get(key) === value) {
+        cache.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Fetches the enumerations of a project once per client. Lists the API key is not
+   * allowed to read (403 or 404) come back empty, so callers fall back to raw IDs;
+   * any other error fails the call and is not cached.
+   */
+  async getEnumerations(projectId: number): Promise<RedmineEnumerations> {
+    let enumerations = this.enumerationsCache.get(projectId);
+
+    if (!enumerations) {
+      const orEmpty = <T>(promise: Promise<T[]>): Promise<T[]> =>
+        promise.catch((error: unknown) => {
+          if (error instanceof RedmineApiError && (error.status === 403 || error.status === 404)) {
+            return [];
+          }
+          throw error;
+        });
+
+      enumerations = Promise.all([
+        orEmpty(this.getIssueStatuses()),
+        orEmpty(this.getTrackers()),
+        orEmpty(this.getIssuePriorities()),
+        orEmpty(this.getProjectMemberships(projectId)),
+        orEmpty(this.getVersions(projectId)),
+        orEmpty(this.getIssueCategories(projectId)),
+      ]).then(([statuses, trackers, priorities, memberships, versions, categories]) => ({
+        statuses,
+        trackers,
+        priorities,
+        users: memberships.flatMap((membership) => {
+          const principal = membership.user ?? membership.group;
+          return principal ? [principal] : [];
+        }),
+        versions,
+        categories,
+      }));
+
+      this.enumerationsCache.set(projectId, enumerations);
+      this.evictOnFailure(this.enumerationsCache, projectId, enumerations, enumerations);
+    }
+
+    return enumerations;
+  }
+
+  /**
+   * Returns the ancestors of an issue ordered from the root down. Parents are fetched
+   * once per client, and the walk stops when a parent chain loops back on itself.
+   * Pass `include` to fetch the ancestors with those associations, e.g. to sync them.
+   */
+  async getIssueAncestors(issue: RedmineIssue, include: string[] = []): Promise<RedmineIssue[]> {
+    const ancestors: RedmineIssue[] = [];
+    const visited = new Set<number>([issue.id]);
+    let parentId = issue.parent?.id;
+
+    while (parentId !== undefined && !visited.has(parentId)) {
+      visited.add(parentId);
+
+      // A parent fetched with fewer includes than requested is fetched again
+      const cached = this.parentCache.get(parentId);
+      let parent =
+        cached && include.every((name) => cached.include.includes(name)) ? cached.issue : undefined;
+      if (!parent) {
+        parent = this.getIssue(parentId, include).then((response) => response.issue);
+        const entry = { include, issue: parent };
+        this.parentCache.set(parentId, entry);
+        this.evictOnFailure(this.parentCache, parentId, entry, parent);
+      }
+
+      const resolved = await parent;
+      ancestors.unshift(resolved);
+      parentId = resolved.parent?.id;
+    }
+
+    return ancestors;
+  }
 }
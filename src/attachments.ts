@@ -0,0 +1,192 @@
+import { stat, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import type { RedmineApiClient, RedmineAttachment, RedmineIssue } from './api.js';
+import type { AttachmentsConfig } from './config.js';
+import { ensureDir, escapeRegExp } from './file.util.js';
+
+export interface AttachmentDownloadResult {
+  id: number;
+  filename: string;
+  /**
+   * Path relative to the output directory, always with forward slashes.
+   */
+  path: string;
+  status: 'downloaded' | 'unchanged' | 'skipped';
+  reason?: string;
+}
+
+/**
+ * Where a downloaded attachment is stored, relative to the markdown file. Links are
+ * keyed by attachment ID, since an issue may have several files with the same name.
+ */
+export interface AttachmentLink {
+  filename: string;
+  path: string;
+}
+
+export type AttachmentLinks = Record<number, AttachmentLink>;
+
+export function sanitizeAttachmentFilename(filename: string): string {
+  return filename.replace(/[/\\?%*:|"<>\x00-\x1f]/g, '_');
+}
+
+export function getAttachmentPath(
+  config: AttachmentsConfig,
+  issueId: number,
+  attachment: Pick<RedmineAttachment, 'id' | 'filename'>
+): string {
+  return [
+    config.dir,
+    issueId.toString(),
+    `${attachment.id}-${sanitizeAttachmentFilename(attachment.filename)}`,
+  ].join('/');
+}
+
+/**
+ * Matches a content type against an allow list that may contain wildcards such as `image/*`.
+ * An empty list allows everything.
+ */
+export function matchesContentType(contentType: string, allowed: string[]): boolean {
+  if (allowed.length === 0) {
+    return true;
+  }
+
+  const type = contentType.toLowerCase();
+  return allowed.some((pattern) => {
+    const normalized = pattern.toLowerCase();
+    if (normalized.endsWith('/*')) {
+      return type.startsWith(normalized.slice(0, -1));
+    }
+    return type === normalized;
+  });
+}
+
+async function getFileSize(filePath: string): Promise<number | null> {
+  try {
+    return (await stat(filePath)).size;
+  } catch {
+    return null;
+  }
+}
+
+function getSkipReason(attachment: RedmineAttachment, config: AttachmentsConfig): string | null {
+  if (!attachment.content_url) {
+    return 'no content URL';
+  }
+  if (attachment.filesize > config.maxSizeBytes) {
+    return `larger than ${config.maxSizeBytes} bytes`;
+  }
+  if (!matchesContentType(attachment.content_type, config.contentTypes)) {
+    return `content type ${attachment.content_type} not allowed`;
+  }
+  return null;
+}
+
+/**
+ * Downloads the attachments of an issue into `outputDir/<dir>/<issueId>/`. Files that
+ * already exist with the expected size are left alone. With `dryRun` nothing is
+ * written, but the result still reports where each attachment would be stored.
+ */
+export async function downloadIssueAttachments(
+  client: RedmineApiClient,
+  issue: RedmineIssue,
+  outputDir: string,
+  config: AttachmentsConfig,
+  dryRun = false
+): Promise<AttachmentDownloadResult[]> {
+  const attachments = issue.attachments ?? [];
+
+  return Promise.all(
+    attachments.map(async (attachment): Promise<AttachmentDownloadResult> => {
+      const path = getAttachmentPath(config, issue.id, attachment);
+      const result = { id: attachment.id, filename: attachment.filename, path };
+
+      const skipReason = getSkipReason(attachment, config);
+      if (skipReason || !attachment.content_url) {
+        return { ...result, status: 'skipped', reason: skipReason ?? 'no content URL' };
+      }
+
+      const filePath = resolve(outputDir, path);
+      const existingSize = await getFileSize(filePath);
+
+      if (existingSize === attachment.filesize) {
+        return { ...result, status: 'unchanged' };
+      }
+
+      if (!dryRun) {
+        const content = await client.downloadAttachment(attachment.content_url);
+        await ensureDir(filePath);
+        await writeFile(filePath, content);
+      }
+
+      return { ...result, status: 'downloaded' };
+    })
+  );
+}
+
+function toMarkdownUrl(path: string): string {
+  return encodeURI(path).replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+/**
+ * Rewrites Redmine attachment references to relative links: inline images
+ * (`!image.png!`, also after conversion to `![](image.png)`) and
+ * `attachment:file` / `attachment:"file name"` links. A name shared by several
+ * attachments points at the newest one, as in Redmine.
+ */
+export function rewriteAttachmentReferences(text: string, links: AttachmentLinks): string {
+  const newest = new Map<string, { id: number; path: string }>();
+  for (const [id, link] of Object.entries(links)) {
+    const current = newest.get(link.filename);
+    if (!current || Number(id) > current.id) {
+      newest.set(link.filename, { id: Number(id), path: link.path });
+    }
+  }
+
+  let result = text;
+
+  for (const [filename, { path }] of newest) {
+    const name = escapeRegExp(filename);
+    const url = toMarkdownUrl(path);
+
+    result = result
+      .replace(
+        new RegExp(`!\\[([^\\]]*)\\]\\(${name}\\)`, 'g'),
+        (_, alt: string) => `![${alt || filename}](${url})`
+      )
+      .replace(
+        new RegExp(`!(?:[<>=])?${name}(?:\\(([^)]*)\\))?!`, 'g'),
+        (_, alt: string | undefined) => `![${alt || filename}](${url})`
+      )
+      .replace(
+        new RegExp(`attachment:(?:"${name}"|${name}(?=$|[\\s.,;:!?)]))`, 'g'),
+        `[${filename}](${url})`
+      );
+  }
+
+  return result;
+}
+
+/**
+ * Turns the links written by `rewriteAttachmentReferences` back into references
+ * Redmine resolves, for text that is sent back to Redmine.
+ */
+export function restoreAttachmentReferences(text: string, links: AttachmentLinks): string {
+  let result = text;
+
+  for (const { filename, path } of Object.values(links)) {
+    const url = escapeRegExp(toMarkdownUrl(path));
+
+    result = result
+      .replace(
+        new RegExp(`!\\[([^\\]]*)\\]\\(${url}\\)`, 'g'),
+        (_, alt: string) => `![${alt === filename ? '' : alt}](${filename})`
+      )
+      .replace(
+        new RegExp(`\\[${escapeRegExp(filename)}\\]\\(${url}\\)`, 'g'),
+        `attachment:"${filename}"`
+      );
+  }
+
+  return result;
+}
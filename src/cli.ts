@@ -1,13 +1,48 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { loadConfig } from './config.js';
+import { loadConfig, type RedmineConfig } from './config.js';
 import { checkConnectivity } from './connectivity-check.js';
-import { syncIssue, extractIssueIdFromUrl } from './sync-issue.js';
+import {
+  syncIssue,
+  extractIssueIdFromUrl,
+  parseIssueReference,
+  type SyncIssuePreview,
+  type SyncIssueResult,
+} from './sync-issue.js';
+import { syncIssueTree, syncRelatedIssues } from './sync-tree.js';
+import { fetchContextPack, fitContextPack, renderContextPack } from './context.js';
+import { runMcpServer } from './mcp.js';
+import { addComment } from './comment.js';
+import { updateIssueFields } from './issue-update.js';
+import { pushNewIssue, pushNewIssues, type PushNewResult } from './push-new.js';
+import { pushIssue, type PushConflict } from './push.js';
+import { logTime, getToday } from './time-log.js';
+import {
+  queueOutboxEntry,
+  loadOutbox,
+  flushOutbox,
+  dropOutboxEntries,
+  describeOutboxEntry,
+  type NewOutboxEntry,
+  type OutboxEntry,
+} from './outbox.js';
+import { checkDrift, type DriftEntry } from './drift.js';
+import {
+  loadLocalIssues,
+  filterLocalIssues,
+  searchLocalIssues,
+  sortLocalIssues,
+  formatIssueTable,
+  LOCAL_SORT_FIELDS,
+  type LocalIssue,
+  type LocalIssueFilters,
+  type LocalSortField,
+} from './local-search.js';
 import { syncProject } from './sync-project.js';
+import { rebuildSyncState, saveSyncState, getStatePath } from './sync-state.js';
 import { promises as fs } from 'fs';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
+import { join, relative } from 'path';
 
 const program = new Command();
 
@@ -24,10 +59,56 @@ program.on('command:*', (operands) => {
   console.error('  check       - Check connectivity to Redmine API');
   console.error('  sync issue  - Sync a single issue');
   console.error('  sync project- Sync all issues in a project');
+  console.error('  context     - Print an LLM context pack for an issue');
+  console.error('  comment     - Add a comment to an issue');
+  console.error('  issue update - Update status, assignee and other fields of an issue');
+  console.error('  push        - Upload local subject and description edits of an issue');
+  console.error('  push new    - Create issues from local markdown drafts');
+  console.error('  outbox      - List, flush or drop writes queued while offline');
+  console.error('  mcp         - Run a Model Context Protocol server over stdio');
+  console.error('  status      - Report drift between local files and Redmine');
+  console.error('  list        - List locally synced issues');
+  console.error('  search      - Search locally synced issues');
+  console.error('  state rebuild - Rebuild the sync state manifest from local files');
   console.error('\nUse "redmine --help" for more information.');
   process.exit(1);
 });
 
+function getResultIcon(result: SyncIssueResult): string {
+  if (!result.success) {
+    return '❌';
+  }
+  if (result.localEdits) {
+    return '⚠️ ';
+  }
+  return result.action === 'skipped' ? '⏭️' : '✅';
+}
+
+const LOCAL_EDITS_HINT =
+  'run with --on-local-edits overwrite|conflict, or move the edits into the local notes';
+
+function withOnLocalEdits(config: RedmineConfig, mode: string | undefined): RedmineConfig {
+  if (mode === undefined) {
+    return config;
+  }
+  if (mode !== 'keep' && mode !== 'conflict' && mode !== 'overwrite') {
+    console.error('❌ --on-local-edits must be "keep", "conflict" or "overwrite"');
+    process.exit(2);
+  }
+  return { ...config, localNotes: { ...config.localNotes, onLocalEdits: mode } };
+}
+
+function printPreview(preview: SyncIssuePreview | undefined) {
+  if (!preview) {
+    return;
+  }
+  if (preview.diff) {
+    process.stdout.write(`\n${preview.diff}\n`);
+  } else {
+    console.log('   (file content would not change)');
+  }
+}
+
 program
   .option('-c, --config <path>', 'Path to configuration file', 'redmine.config.yaml')
   .option('-o, --output-dir <path>', 'Output directory for markdown files')
@@ -90,6 +171,8 @@ comments:
     start: '<!-- redmine:comments:start -->'
     end: '<!-- redmine:comments:end -->'
   trackBy: journalId
+  mode: append
+textFormatting: markdown
 `;
 
       try {
@@ -217,9 +300,22 @@ program
       .description('Sync a single issue')
       .option('-i, --id <number>', 'Issue ID')
       .option('-u, --url <url>', 'Issue URL')
+      .option('--refresh-comments', 'Regenerate the comments section from all journals')
+      .option('--with-children', 'Also sync all child issues recursively')
+      .option('--with-parent', 'Also sync the parent issues up to the root')
+      .option('--follow-relations', 'Also sync issues reachable through relations')
+      .option(
+        '--on-local-edits <mode>',
+        'What to do with edits outside the local notes (keep|conflict|overwrite)'
+      )
+      .option('--depth <number>', 'Number of relation hops to follow (default: 1)')
+      .option(
+        '--relation-types <types>',
+        'Comma-separated relation types to follow, e.g. blocks,relates,duplicates,precedes'
+      )
       .action(async (options, command) => {
         const globalOpts = command.parent?.parent?.opts() || {};
-        const config = await loadConfig(globalOpts.config);
+        const config = withOnLocalEdits(await loadConfig(globalOpts.config), options.onLocalEdits);
 
         let issueId: number;
 
@@ -241,20 +337,138 @@ program
           process.exit(2);
         }
 
+        if (options.followRelations) {
+          if (options.withChildren || options.withParent) {
+            console.error(
+              '❌ --follow-relations cannot be combined with --with-children/--with-parent'
+            );
+            process.exit(2);
+          }
+
+          const depth = options.depth !== undefined ? parseInt(options.depth, 10) : 1;
+          if (isNaN(depth) || depth < 0) {
+            console.error('❌ --depth must be a non-negative number');
+            process.exit(2);
+          }
+
+          const relationTypes: string[] = options.relationTypes
+            ? options.relationTypes
+                .split(',')
+                .map((type: string) => type.trim())
+                .filter(Boolean)
+            : [];
+
+          const relationsResult = await syncRelatedIssues(issueId, config, {
+            ...(globalOpts.dryRun && { dryRun: true }),
+            ...(globalOpts.outputDir && { outputDir: globalOpts.outputDir }),
+            ...(options.refreshComments && { refreshComments: true }),
+            depth,
+            relationTypes,
+            ...(!globalOpts.json && {
+              onIssueResult: (result: SyncIssueResult) => {
+                console.log(`${getResultIcon(result)} ${result.message}`);
+                printPreview(result.preview);
+              },
+            }),
+          });
+
+          if (globalOpts.json) {
+            console.log(JSON.stringify(relationsResult, null, 2));
+          } else {
+            console.log('');
+            console.log('Relation graph:');
+            for (const node of relationsResult.graph.nodes) {
+              const label = node.subject ? ` ${node.subject} (${node.project})` : '';
+              console.log(`   ${'  '.repeat(node.depth)}#${node.issueId}${label}`);
+            }
+            for (const edge of relationsResult.graph.edges) {
+              console.log(`   #${edge.from} ${edge.type} #${edge.to}`);
+            }
+            console.log('');
+            console.log(
+              relationsResult.success
+                ? '✅ Relation sync completed successfully'
+                : '❌ Relation sync completed with errors'
+            );
+            console.log(`   Issues: ${relationsResult.issues.length}`);
+            console.log(`   Created: ${relationsResult.created}`);
+            console.log(`   Updated: ${relationsResult.updated}`);
+            console.log(`   Skipped: ${relationsResult.skipped}`);
+            if (relationsResult.failed > 0) {
+              console.log(`   Failed: ${relationsResult.failed}`);
+            }
+          }
+
+          if (!relationsResult.success) {
+            process.exit(4);
+          }
+          return;
+        }
+
+        if (options.withChildren || options.withParent) {
+          const treeResult = await syncIssueTree(issueId, config, {
+            ...(globalOpts.dryRun && { dryRun: true }),
+            ...(globalOpts.outputDir && { outputDir: globalOpts.outputDir }),
+            ...(options.refreshComments && { refreshComments: true }),
+            ...(options.withChildren && { withChildren: true }),
+            ...(options.withParent && { withParent: true }),
+            ...(!globalOpts.json && {
+              onIssueResult: (result: SyncIssueResult) => {
+                console.log(`${getResultIcon(result)} ${result.message}`);
+                printPreview(result.preview);
+              },
+            }),
+          });
+
+          if (globalOpts.json) {
+            console.log(JSON.stringify(treeResult, null, 2));
+          } else {
+            console.log('');
+            console.log(
+              treeResult.success
+                ? '✅ Tree sync completed successfully'
+                : '❌ Tree sync completed with errors'
+            );
+            console.log(`   Issues: ${treeResult.issues.length}`);
+            console.log(`   Created: ${treeResult.created}`);
+            console.log(`   Updated: ${treeResult.updated}`);
+            console.log(`   Skipped: ${treeResult.skipped}`);
+            if (treeResult.failed > 0) {
+              console.log(`   Failed: ${treeResult.failed}`);
+            }
+          }
+
+          if (!treeResult.success) {
+            process.exit(4);
+          }
+          return;
+        }
+
         const result = await syncIssue(issueId, config, {
-          dryRun: globalOpts.dryRun,
-          outputDir: globalOpts.outputDir,
+          ...(globalOpts.dryRun && { dryRun: true }),
+          ...(globalOpts.outputDir && { outputDir: globalOpts.outputDir }),
+          ...(options.refreshComments && { refreshComments: true }),
         });
 
         if (globalOpts.json) {
           console.log(JSON.stringify(result, null, 2));
         } else {
           if (result.success) {
-            const icon = result.action === 'skipped' ? '⏭️' : '✅';
-            console.log(`${icon} ${result.message}`);
+            console.log(`${getResultIcon(result)} ${result.message}`);
             if (result.filePath) {
               console.log(`   File: ${result.filePath}`);
             }
+            if (result.localEdits === 'kept') {
+              console.log(`   To update it, ${LOCAL_EDITS_HINT}.`);
+            }
+            printPreview(result.preview);
+            for (const attachment of result.attachments ?? []) {
+              if (attachment.status === 'downloaded') {
+                console.log(`   📎 ${attachment.path}`);
+              } else if (attachment.status === 'skipped') {
+                console.log(`   ⚠️  Skipped ${attachment.filename}: ${attachment.reason}`);
+              }
+            }
           } else {
             console.error('❌', result.message);
             process.exit(4);
@@ -266,25 +480,61 @@ program
     new Command('project')
       .description('Sync all issues in a project')
       .option('-s, --status <status>', 'Filter by status (default: *)', '*')
-      .option('--updated-since <date>', 'Only sync issues updated since YYYY-MM-DD')
-      .option('--concurrency <number>', 'Number of concurrent requests')
+      .option(
+        '--updated-since <date>',
+        'Only sync issues updated since YYYY-MM-DD or an ISO timestamp (overrides the watermark)'
+      )
+      .option('--full', 'Ignore the incremental watermark and resync every issue')
+      .option('--refresh-comments', 'Regenerate the comments section of every issue')
+      .option(
+        '--on-local-edits <mode>',
+        'What to do with edits outside the local notes (keep|conflict|overwrite)'
+      )
+      .option(
+        '--prune [mode]',
+        'Archive or delete files of issues that left the sync scope (archive|delete)'
+      )
+      .option('--concurrency <number>', 'Number of issues synced in parallel')
       .option('--page-size <number>', 'Page size for API requests')
+      .option('--rate-limit <number>', 'Maximum API requests per second, e.g. 0.5 or 5')
       .action(async (options, command) => {
         const globalOpts = command.parent?.parent?.opts() || {};
-        const config = await loadConfig(globalOpts.config);
+        const config = withOnLocalEdits(await loadConfig(globalOpts.config), options.onLocalEdits);
+
+        const rateLimit = options.rateLimit !== undefined ? Number(options.rateLimit) : undefined;
+        if (rateLimit !== undefined && !(rateLimit > 0)) {
+          console.error('❌ --rate-limit must be a positive number of requests per second');
+          process.exit(2);
+        }
+
+        const prune = options.prune === true ? config.defaults.pruneMode : options.prune;
+        if (prune && prune !== 'archive' && prune !== 'delete') {
+          console.error('❌ --prune must be "archive" or "delete"');
+          process.exit(2);
+        }
 
         const syncOptions: Parameters<typeof syncProject>[1] = {
           status: options.status,
-          updatedSince: options.updatedSince,
-          dryRun: globalOpts.dryRun,
-          outputDir: globalOpts.outputDir,
+          ...(options.updatedSince && { updatedSince: options.updatedSince }),
+          ...(options.full && { full: true }),
+          ...(prune && { prune }),
+          ...(options.refreshComments && { refreshComments: true }),
+          ...(globalOpts.dryRun && { dryRun: true }),
+          ...(globalOpts.outputDir && { outputDir: globalOpts.outputDir }),
           ...(options.concurrency && { concurrency: parseInt(options.concurrency, 10) }),
           ...(options.pageSize && { pageSize: parseInt(options.pageSize, 10) }),
-          onProgress: globalOpts.json
-            ? undefined
-            : (current: number, total: number) => {
-                process.stdout.write(`\rProgress: ${current}/${total} issues`);
-              },
+          ...(rateLimit !== undefined && { requestsPerSecond: rateLimit }),
+          ...(!globalOpts.json && {
+            onProgress: (current: number, total: number) => {
+              process.stdout.write(`\rFetching: ${current}/${total} issues`);
+            },
+            onIssueResult: (issueResult, processed, total) => {
+              if (!issueResult.success || issueResult.localEdits) {
+                process.stdout.write(`\r${getResultIcon(issueResult)} ${issueResult.message}\n`);
+              }
+              process.stdout.write(`\rProgress: ${processed}/${total} issues`);
+            },
+          }),
         };
 
         const result = await syncProject(config, syncOptions);
@@ -296,8 +546,41 @@ program
         if (globalOpts.json) {
           console.log(JSON.stringify(result, null, 2));
         } else {
+          for (const preview of result.previews ?? []) {
+            console.log(
+              `📝 Would ${preview.action === 'created' ? 'create' : 'update'} ${preview.filePath}`
+            );
+            printPreview(preview);
+          }
+
+          if (result.reconciliation && result.reconciliation.stale.length > 0) {
+            const verbs = globalOpts.dryRun
+              ? { kept: 'Would keep', archived: 'Would archive', deleted: 'Would delete' }
+              : { kept: 'Kept', archived: 'Archived', deleted: 'Deleted' };
+            console.log('Issues no longer in scope:');
+            result.reconciliation.stale.forEach((stale) => {
+              console.log(
+                `   ${verbs[stale.action]} #${stale.issueId} (${stale.reason}): ${stale.filename}`
+              );
+            });
+            if (!prune) {
+              console.log('   Run with --prune to archive or delete these files.');
+            }
+          }
+
+          if (result.localEditsKept) {
+            console.log(`⚠️  Kept local edits in ${result.localEditsKept.length} file(s):`);
+            result.localEditsKept.forEach((kept) => {
+              console.log(`   #${kept.issueId}: ${kept.filePath}`);
+            });
+            console.log(`   These issues are checked again on every sync; ${LOCAL_EDITS_HINT}.`);
+          }
+
           if (result.success) {
             console.log('✅ Sync completed successfully');
+            if (result.updatedSince) {
+              console.log(`   Incremental since: ${result.updatedSince}`);
+            }
             console.log(`   Total issues: ${result.totalIssues}`);
             console.log(`   Created: ${result.created}`);
             console.log(`   Updated: ${result.updated}`);
@@ -327,4 +610,859 @@ program
       })
   );
 
+program
+  .command('context')
+  .description('Build a self-contained context document for an issue')
+  .argument('<issue>', 'Issue ID or URL')
+  .option('--max-tokens <number>', 'Token budget; older comments and relations are dropped first')
+  .option('--format <format>', 'Output format (markdown or json)', 'markdown')
+  .option('--output-file <path>', 'Write the context to a file instead of stdout')
+  .action(async (issue, options, command) => {
+    const globalOpts = command.parent?.opts() || {};
+    const config = await loadConfig(globalOpts.config);
+
+    const issueId = parseIssueReference(issue);
+    if (!issueId) {
+      console.error('❌ Invalid issue ID or URL');
+      process.exit(2);
+    }
+
+    const format = globalOpts.json ? 'json' : options.format;
+    if (format !== 'markdown' && format !== 'json') {
+      console.error('❌ --format must be markdown or json');
+      process.exit(2);
+    }
+
+    const maxTokens = options.maxTokens !== undefined ? parseInt(options.maxTokens, 10) : null;
+    if (maxTokens !== null && (isNaN(maxTokens) || maxTokens <= 0)) {
+      console.error('❌ --max-tokens must be a positive number');
+      process.exit(2);
+    }
+
+    let pack;
+    try {
+      pack = await fetchContextPack(issueId, config);
+    } catch (error) {
+      console.error(
+        `❌ Failed to fetch issue ${issueId}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(4);
+    }
+
+    if (maxTokens !== null) {
+      pack = fitContextPack(pack, maxTokens, format);
+    }
+
+    const output = renderContextPack(pack, format);
+
+    if (options.outputFile) {
+      await fs.writeFile(options.outputFile, output, 'utf8');
+      console.log(`✅ Wrote context for issue ${issueId} to ${options.outputFile}`);
+      console.log(`   Estimated tokens: ${pack.estimatedTokens}`);
+    } else {
+      process.stdout.write(output);
+    }
+  });
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Queues a write that failed because Redmine was unreachable, unless this is a dry run.
+ */
+async function queueOffline(
+  entry: NewOutboxEntry,
+  globalOpts: { dryRun?: boolean; outputDir?: string },
+  config: RedmineConfig
+): Promise<OutboxEntry | undefined> {
+  if (globalOpts.dryRun) {
+    return undefined;
+  }
+  return queueOutboxEntry(globalOpts.outputDir || config.outputDir, entry);
+}
+
+function printQueued(entry: OutboxEntry, reason: string) {
+  console.error('⚠️ ', reason);
+  console.log(
+    `📮 Queued the ${describeOutboxEntry(entry)} as outbox entry #${entry.id}; send it with "redmine outbox flush"`
+  );
+}
+
+program
+  .command('comment')
+  .description('Add a comment to an issue and re-sync its local file')
+  .argument('<issue>', 'Issue ID or URL')
+  .option('-m, --message <text>', 'Comment text')
+  .option('-f, --file <path>', 'Read the comment from a file ("-" for stdin)')
+  .option('--private', 'Add the comment as a private note')
+  .action(async (issue, options, command) => {
+    const globalOpts = command.parent?.opts() || {};
+    const config = await loadConfig(globalOpts.config);
+
+    const issueId = parseIssueReference(issue);
+    if (!issueId) {
+      console.error('❌ Invalid issue ID or URL');
+      process.exit(2);
+    }
+
+    if (Boolean(options.message) === Boolean(options.file)) {
+      console.error('❌ Provide the comment with either --message or --file');
+      process.exit(2);
+    }
+
+    let notes: string = options.message ?? '';
+    if (options.file) {
+      try {
+        notes = options.file === '-' ? await readStdin() : await fs.readFile(options.file, 'utf8');
+      } catch (error) {
+        console.error(
+          `❌ Failed to read ${options.file}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+        process.exit(2);
+      }
+    }
+
+    if (notes.trim() === '') {
+      console.error('❌ The comment is empty');
+      process.exit(2);
+    }
+
+    const result = await addComment(issueId, notes.trim(), config, {
+      ...(options.private && { privateNotes: true }),
+      ...(globalOpts.dryRun && { dryRun: true }),
+      ...(globalOpts.outputDir && { outputDir: globalOpts.outputDir }),
+    });
+
+    const queued =
+      result.failure === 'unreachable'
+        ? await queueOffline(
+            {
+              action: 'comment',
+              issueId,
+              notes: notes.trim(),
+              ...(options.private && { privateNotes: true }),
+            },
+            globalOpts,
+            config
+          )
+        : undefined;
+
+    if (globalOpts.json) {
+      console.log(JSON.stringify({ ...result, ...(queued && { queued }) }, null, 2));
+    } else if (queued) {
+      printQueued(queued, result.message);
+    } else if (!result.success) {
+      console.error('❌', result.message);
+    } else if (globalOpts.dryRun) {
+      console.log(`📝 ${result.message}`);
+      console.log(`   ${result.request.method} ${result.request.path}`);
+      console.log(JSON.stringify(result.request.body, null, 2));
+    } else {
+      console.log(`💬 ${result.message}`);
+      if (result.sync) {
+        console.log(`${getResultIcon(result.sync)} ${result.sync.message}`);
+        if (result.sync.filePath) {
+          console.log(`   File: ${result.sync.filePath}`);
+        }
+      }
+    }
+
+    switch (queued ? undefined : result.failure) {
+      case 'invalid':
+        process.exit(2);
+        break;
+      case 'not-found':
+      case 'rejected':
+        process.exit(4);
+        break;
+      case 'unreachable':
+        process.exit(5);
+    }
+  });
+
+program
+  .command('issue')
+  .description('Change issues in Redmine')
+  .addCommand(
+    new Command('update')
+      .description('Update status, assignee, priority, version, done ratio or subject of an issue')
+      .argument('<issue>', 'Issue ID or URL')
+      .option('--status <name>', 'New status, e.g. "In Progress"')
+      .option('--assignee <name>', 'Assignee name or ID, "me" or "none"')
+      .option('--priority <name>', 'New priority')
+      .option(
+        '--target-version <name>',
+        'Target version name or ID, or "none" (--version prints the CLI version)'
+      )
+      .option('--done <percent>', 'Done ratio (0-100)')
+      .option('--subject <text>', 'New subject')
+      .option('-m, --message <text>', 'Comment to add with the change')
+      .action(async (issue, options, command) => {
+        const globalOpts = command.parent?.parent?.opts() || {};
+        const config = await loadConfig(globalOpts.config);
+
+        const issueId = parseIssueReference(issue);
+        if (!issueId) {
+          console.error('❌ Invalid issue ID or URL');
+          process.exit(2);
+        }
+
+        const doneRatio = options.done !== undefined ? Number(options.done) : undefined;
+        if (doneRatio !== undefined && isNaN(doneRatio)) {
+          console.error('❌ --done must be a number');
+          process.exit(2);
+        }
+
+        const changes = {
+          ...(options.status !== undefined && { status: options.status }),
+          ...(options.assignee !== undefined && { assignee: options.assignee }),
+          ...(options.priority !== undefined && { priority: options.priority }),
+          ...(options.targetVersion !== undefined && { version: options.targetVersion }),
+          ...(doneRatio !== undefined && { doneRatio }),
+          ...(options.subject !== undefined && { subject: options.subject }),
+          ...(options.message !== undefined && { notes: options.message }),
+        };
+        const result = await updateIssueFields(issueId, changes, config, {
+          ...(globalOpts.dryRun && { dryRun: true }),
+          ...(globalOpts.outputDir && { outputDir: globalOpts.outputDir }),
+        });
+
+        const queued =
+          result.failure === 'unreachable'
+            ? await queueOffline({ action: 'update', issueId, changes }, globalOpts, config)
+            : undefined;
+
+        if (globalOpts.json) {
+          console.log(JSON.stringify({ ...result, ...(queued && { queued }) }, null, 2));
+        } else if (queued) {
+          printQueued(queued, result.message);
+        } else if (!result.success) {
+          console.error('❌', result.message);
+        } else if (globalOpts.dryRun && result.request) {
+          console.log(`📝 ${result.message}`);
+          console.log(`   ${result.request.method} ${result.request.path}`);
+          console.log(JSON.stringify(result.request.body, null, 2));
+        } else {
+          console.log(`✏️  ${result.message}`);
+        }
+
+        if (result.warning && !globalOpts.json) {
+          console.error('⚠️ ', result.warning);
+        }
+
+        if (result.sync && !globalOpts.json) {
+          console.log(`${getResultIcon(result.sync)} ${result.sync.message}`);
+          if (result.sync.filePath) {
+            console.log(`   File: ${result.sync.filePath}`);
+          }
+        }
+
+        switch (queued ? undefined : result.failure) {
+          case 'invalid':
+            process.exit(2);
+            break;
+          case 'not-found':
+          case 'rejected':
+            process.exit(4);
+            break;
+          case 'unreachable':
+            process.exit(5);
+        }
+      })
+  );
+
+program
+  .command('time')
+  .description('Track time spent on issues')
+  .addCommand(
+    new Command('log')
+      .description('Log spent time on an issue and re-sync its local file')
+      .argument('<issue>', 'Issue ID or URL')
+      .requiredOption('--hours <hours>', 'Hours spent, e.g. 1.5')
+      .option('--activity <name>', "Activity name or ID (Redmine's default if omitted)")
+      .option('-c, --comment <text>', 'Comment for the time entry')
+      .option('--date <date>', 'Day the time was spent (YYYY-MM-DD, default: today)')
+      .action(async (issue, options, command) => {
+        const globalOpts = command.parent?.parent?.opts() || {};
+        const config = await loadConfig(globalOpts.config);
+
+        const issueId = parseIssueReference(issue);
+        if (!issueId) {
+          console.error('❌ Invalid issue ID or URL');
+          process.exit(2);
+        }
+
+        const hours = Number(options.hours);
+        const result = await logTime(issueId, hours, config, {
+          ...(options.activity && { activity: options.activity }),
+          ...(options.comment && { comment: options.comment }),
+          ...(options.date && { spentOn: options.date }),
+          ...(globalOpts.dryRun && { dryRun: true }),
+          ...(globalOpts.outputDir && { outputDir: globalOpts.outputDir }),
+        });
+
+        const queued =
+          result.failure === 'unreachable'
+            ? await queueOffline(
+                {
+                  action: 'time',
+                  issueId,
+                  hours,
+                  ...(options.activity && { activity: options.activity }),
+                  ...(options.comment && { comment: options.comment }),
+                  spentOn: options.date ?? getToday(),
+                },
+                globalOpts,
+                config
+              )
+            : undefined;
+
+        if (globalOpts.json) {
+          console.log(JSON.stringify({ ...result, ...(queued && { queued }) }, null, 2));
+        } else if (queued) {
+          printQueued(queued, result.message);
+        } else if (!result.success) {
+          console.error('❌', result.message);
+        } else if (globalOpts.dryRun && result.request) {
+          console.log(`📝 ${result.message}`);
+          console.log(`   ${result.request.method} ${result.request.path}`);
+          console.log(JSON.stringify(result.request.body, null, 2));
+        } else {
+          console.log(`⏱️  ${result.message}`);
+        }
+
+        if (result.sync && !globalOpts.json) {
+          console.log(`${getResultIcon(result.sync)} ${result.sync.message}`);
+          if (result.sync.filePath) {
+            console.log(`   File: ${result.sync.filePath}`);
+          }
+        }
+
+        switch (queued ? undefined : result.failure) {
+          case 'invalid':
+            process.exit(2);
+            break;
+          case 'not-found':
+          case 'rejected':
+            process.exit(4);
+            break;
+          case 'unreachable':
+            process.exit(5);
+        }
+      })
+  );
+
+function printPushResult(result: PushNewResult, dryRun: boolean) {
+  if (!result.success) {
+    console.error('❌', result.message);
+  } else if (dryRun && result.request) {
+    console.log(`📝 ${result.message}`);
+    console.log(`   ${result.request.method} ${result.request.path}`);
+    console.log(JSON.stringify(result.request.body, null, 2));
+  } else {
+    console.log(`🆕 ${result.message}`);
+  }
+
+  if (result.sync) {
+    console.log(`${getResultIcon(result.sync)} ${result.sync.message}`);
+    if (result.sync.filePath) {
+      console.log(`   File: ${result.sync.filePath}`);
+    }
+  }
+}
+
+function getPushExitCode(results: PushNewResult[]): number {
+  const failures = results.map((result) => result.failure);
+  if (failures.includes('unreachable')) {
+    return 5;
+  }
+  if (failures.includes('rejected') || failures.includes('not-found')) {
+    return 4;
+  }
+  if (failures.includes('invalid')) {
+    return 2;
+  }
+  return failures.includes('local') ? 1 : 0;
+}
+
+function printPushConflict(conflict: PushConflict) {
+  console.error(
+    `   Local file: updated_on ${conflict.localUpdatedOn}; Redmine: updated_on ${conflict.remoteUpdatedOn}`
+  );
+  for (const field of conflict.fields) {
+    console.error(`\n── ${field.field} ──`);
+    process.stderr.write(field.localDiff || `(unchanged locally)\n`);
+    process.stderr.write(field.remoteDiff || `(unchanged in Redmine)\n`);
+  }
+  console.error(
+    conflict.mergeable
+      ? '\n💡 The changes do not overlap: use --merge to combine them, or --force to overwrite Redmine'
+      : '\n💡 The changes overlap: fold the Redmine changes into the file, then use --force'
+  );
+}
+
+program
+  .command('push')
+  .description('Upload local subject and description edits of a synced issue')
+  .argument('<issue>', 'Issue ID or URL')
+  .option('--force', 'Overwrite changes made in Redmine since the last sync')
+  .option('--merge', 'Combine local and Redmine changes to different lines')
+  .action(async (issue, options, command) => {
+    const globalOpts = command.parent?.opts() || {};
+    const config = await loadConfig(globalOpts.config);
+
+    const issueId = parseIssueReference(issue);
+    if (!issueId) {
+      console.error('❌ Invalid issue ID or URL');
+      process.exit(2);
+    }
+
+    if (options.force && options.merge) {
+      console.error('❌ Use either --force or --merge');
+      process.exit(2);
+    }
+
+    const strategy = options.force
+      ? ('force' as const)
+      : options.merge
+        ? ('merge' as const)
+        : undefined;
+    const result = await pushIssue(issueId, config, {
+      ...(strategy && { strategy }),
+      ...(globalOpts.dryRun && { dryRun: true }),
+      ...(globalOpts.outputDir && { outputDir: globalOpts.outputDir }),
+    });
+
+    const queued =
+      result.failure === 'unreachable'
+        ? await queueOffline(
+            { action: 'push', issueId, ...(strategy && { strategy }) },
+            globalOpts,
+            config
+          )
+        : undefined;
+
+    if (globalOpts.json) {
+      console.log(JSON.stringify({ ...result, ...(queued && { queued }) }, null, 2));
+    } else if (queued) {
+      printQueued(queued, result.message);
+    } else if (!result.success) {
+      console.error('❌', result.message);
+      if (result.conflict) {
+        printPushConflict(result.conflict);
+      }
+    } else if (globalOpts.dryRun && result.request && result.action === 'pushed') {
+      console.log(`📝 ${result.message}`);
+      console.log(`   ${result.request.method} ${result.request.path}`);
+      console.log(JSON.stringify(result.request.body, null, 2));
+    } else {
+      console.log(`${result.action === 'pushed' ? '⬆️ ' : '⏭️'} ${result.message}`);
+    }
+
+    if (result.sync && !globalOpts.json) {
+      console.log(`${getResultIcon(result.sync)} ${result.sync.message}`);
+      if (result.sync.filePath) {
+        console.log(`   File: ${result.sync.filePath}`);
+      }
+    }
+
+    switch (queued ? undefined : result.failure) {
+      case 'conflict':
+        process.exit(1);
+        break;
+      case 'invalid':
+        process.exit(2);
+        break;
+      case 'not-found':
+      case 'rejected':
+        process.exit(4);
+        break;
+      case 'unreachable':
+        process.exit(5);
+    }
+  })
+  .addCommand(
+    new Command('new')
+      .description('Create issues from a markdown draft or a directory of drafts')
+      .argument('<path>', 'Draft file, or a directory whose files without an id are drafts')
+      .action(async (path, options, command) => {
+        const globalOpts = command.parent?.parent?.opts() || {};
+        const config = await loadConfig(globalOpts.config);
+        const pushOptions = {
+          ...(globalOpts.dryRun && { dryRun: true }),
+          ...(globalOpts.outputDir && { outputDir: globalOpts.outputDir }),
+        };
+
+        const isDirectory = await fs.stat(path).then(
+          (stats) => stats.isDirectory(),
+          () => false
+        );
+
+        if (!isDirectory) {
+          const result = await pushNewIssue(path, config, pushOptions);
+          if (globalOpts.json) {
+            console.log(JSON.stringify(result, null, 2));
+          } else {
+            printPushResult(result, Boolean(globalOpts.dryRun));
+          }
+          process.exit(getPushExitCode([result]));
+        }
+
+        const batch = await pushNewIssues(path, config, pushOptions);
+        if (globalOpts.json) {
+          console.log(JSON.stringify(batch, null, 2));
+        } else {
+          for (const result of batch.results) {
+            printPushResult(result, Boolean(globalOpts.dryRun));
+          }
+          const verb = globalOpts.dryRun ? 'Would create' : 'Created';
+          console.log(
+            `\n📊 ${verb} ${batch.created} issue(s), ${batch.failed} failed, ${batch.skipped} already synced`
+          );
+        }
+        process.exit(getPushExitCode(batch.results));
+      })
+  );
+
+function getFlushIcon(status: string): string {
+  switch (status) {
+    case 'sent':
+      return '✅';
+    case 'conflict':
+      return '⚠️ ';
+    case 'failed':
+      return '❌';
+    default:
+      return '⏸️ ';
+  }
+}
+
+program
+  .command('outbox')
+  .description('Manage writes queued while Redmine was unreachable')
+  .addCommand(
+    new Command('list').description('List queued writes').action(async (options, command) => {
+      const globalOpts = command.parent?.parent?.opts() || {};
+      const config = await loadConfig(globalOpts.config);
+      const outbox = await loadOutbox(globalOpts.outputDir || config.outputDir);
+
+      if (globalOpts.json) {
+        console.log(JSON.stringify(outbox.entries, null, 2));
+        return;
+      }
+      if (outbox.entries.length === 0) {
+        console.log('📭 The outbox is empty');
+        return;
+      }
+
+      for (const entry of outbox.entries) {
+        console.log(
+          `${entry.failed ? '❌' : '📮'} #${entry.id} ${describeOutboxEntry(entry)}, queued ${entry.queuedAt}`
+        );
+        if (entry.lastError) {
+          console.log(`   Last attempt: ${entry.lastError}`);
+        }
+      }
+    })
+  )
+  .addCommand(
+    new Command('flush')
+      .description('Replay queued writes in order')
+      .option('--force', 'Replay even when an issue changed in Redmine since it was queued')
+      .option('--retry-failed', 'Retry writes Redmine refused before')
+      .action(async (options, command) => {
+        const globalOpts = command.parent?.parent?.opts() || {};
+        const config = await loadConfig(globalOpts.config);
+
+        const result = await flushOutbox(config, {
+          ...(options.force && { force: true }),
+          ...(options.retryFailed && { retryFailed: true }),
+          ...(globalOpts.dryRun && { dryRun: true }),
+          ...(globalOpts.outputDir && { outputDir: globalOpts.outputDir }),
+        });
+
+        if (globalOpts.json) {
+          console.log(JSON.stringify(result, null, 2));
+        } else if (result.results.length === 0) {
+          console.log('📭 The outbox is empty');
+        } else {
+          for (const { entry, status, message } of result.results) {
+            console.log(`${getFlushIcon(status)} #${entry.id} ${describeOutboxEntry(entry)}`);
+            console.log(`   ${message}`);
+          }
+          console.log(
+            `\n📊 ${result.sent} sent, ${result.conflicts} conflicts, ${result.failed} failed, ${result.pending} pending`
+          );
+          if (result.failed > 0) {
+            console.log(
+              '💡 Check failed entries, then drop them with "redmine outbox drop --failed"'
+            );
+          }
+          if (result.conflicts > 0) {
+            console.log(
+              '💡 Review the conflicting issues, then flush with --force or drop the entries'
+            );
+          }
+        }
+
+        if (result.unreachable) {
+          process.exit(5);
+        } else if (result.failed > 0) {
+          process.exit(4);
+        } else if (result.conflicts > 0) {
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('drop')
+      .description('Remove queued writes without sending them')
+      .argument('[ids...]', 'Outbox entry IDs')
+      .option('--failed', 'Drop all entries Redmine refused')
+      .option('--all', 'Drop every entry')
+      .action(async (ids: string[], options, command) => {
+        const globalOpts = command.parent?.parent?.opts() || {};
+        const config = await loadConfig(globalOpts.config);
+
+        const entryIds = ids.map((id) => parseInt(id.replace('#', ''), 10));
+        if (entryIds.some((id) => isNaN(id))) {
+          console.error('❌ Entry IDs must be numbers');
+          process.exit(2);
+        }
+        if (entryIds.length === 0 && !options.failed && !options.all) {
+          console.error('❌ Name entries to drop, or use --failed or --all');
+          process.exit(2);
+        }
+
+        const dropped = await dropOutboxEntries(globalOpts.outputDir || config.outputDir, {
+          ids: entryIds,
+          ...(options.failed && { failed: true }),
+          ...(options.all && { all: true }),
+        });
+
+        if (globalOpts.json) {
+          console.log(JSON.stringify(dropped, null, 2));
+        } else if (dropped.length === 0) {
+          console.log('📭 No matching outbox entries');
+        } else {
+          for (const entry of dropped) {
+            console.log(`🗑️  Dropped #${entry.id} ${describeOutboxEntry(entry)}`);
+          }
+        }
+      })
+  );
+
+program
+  .command('mcp')
+  .description('Run a Model Context Protocol server over stdio')
+  .action(async (options, command) => {
+    const globalOpts = command.parent?.opts() || {};
+    const config = await loadConfig(globalOpts.config);
+
+    // stdout carries the protocol, so diagnostics go to stderr
+    console.error(`Redmine MCP server running for ${config.baseUrl}`);
+
+    await runMcpServer(config, {
+      ...(globalOpts.outputDir && { outputDir: globalOpts.outputDir }),
+      version: program.version() ?? '0.0.0',
+    });
+  });
+
+function printDriftEntries(title: string, entries: DriftEntry[]) {
+  if (entries.length === 0) {
+    return;
+  }
+
+  console.log(`\n${title} (${entries.length}):`);
+  entries.forEach((entry) => {
+    const details = [
+      entry.subject,
+      entry.filename,
+      entry.newComments !== undefined && `${entry.newComments} new comments`,
+      entry.localUpdatedOn &&
+        entry.remoteUpdatedOn &&
+        `${entry.localUpdatedOn} → ${entry.remoteUpdatedOn}`,
+    ].filter(Boolean);
+    console.log(`   #${entry.issueId} ${details.join(' · ')}`);
+  });
+}
+
+program
+  .command('status')
+  .description('Report drift between local files and Redmine (exit 0 in sync, 1 drifted)')
+  .option('--status <status>', 'Status filter for the remote listing (default: config)')
+  .option('--no-comments', 'Do not fetch updated issues to count new comments')
+  .action(async (options, command) => {
+    const globalOpts = command.parent?.opts() || {};
+    const config = await loadConfig(globalOpts.config);
+
+    const report = await checkDrift(config, {
+      ...(options.status && { status: options.status }),
+      ...(globalOpts.outputDir && { outputDir: globalOpts.outputDir }),
+      checkComments: options.comments,
+    });
+
+    if (globalOpts.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else if (!report.success) {
+      console.error(`❌ ${report.message}`);
+    } else {
+      console.log(
+        `${report.inSync ? '✅ In sync' : '⚠️  Out of sync'}: project ${report.projectId}, ` +
+          `${report.remoteIssues} remote / ${report.localIssues} local issues (status: ${report.status})`
+      );
+      printDriftEntries('🆕 New in Redmine', report.newRemote);
+      printDriftEntries('🔄 Updated in Redmine', report.updated);
+      printDriftEntries('💬 New comments', report.newComments);
+      printDriftEntries('🗑️  Only local', report.localOnly);
+      printDriftEntries('✏️  Edited locally', report.handEdited);
+    }
+
+    if (!report.success) {
+      process.exit(5);
+    }
+    process.exit(report.inSync ? 0 : 1);
+  });
+
+function addLocalFilterOptions(command: Command): Command {
+  return command
+    .option('--status <names>', 'Comma-separated statuses')
+    .option('--tracker <names>', 'Comma-separated trackers')
+    .option('--assignee <names>', 'Comma-separated assignees')
+    .option('--priority <names>', 'Comma-separated priorities')
+    .option('--target-version <names>', 'Comma-separated target versions')
+    .option('--updated-since <date>', 'Only issues updated since YYYY-MM-DD or an ISO timestamp')
+    .option('--sort <field>', `Sort by ${LOCAL_SORT_FIELDS.join(', ')}`)
+    .option('--desc', 'Sort in descending order')
+    .option('--limit <number>', 'Maximum number of issues to show');
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  return value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+async function runLocalQuery(
+  query: string | null,
+  options: Record<string, string | boolean | undefined>,
+  globalOpts: Record<string, string | boolean | undefined>
+) {
+  const config = await loadConfig(globalOpts.config as string | undefined);
+  const outputDir = (globalOpts.outputDir as string | undefined) || config.outputDir;
+
+  const sort = (options.sort as string | undefined) ?? (query ? 'relevance' : 'id');
+  if (!(LOCAL_SORT_FIELDS as readonly string[]).includes(sort)) {
+    console.error(`❌ --sort must be one of: ${LOCAL_SORT_FIELDS.join(', ')}`);
+    process.exit(2);
+  }
+
+  const updatedSince = options.updatedSince as string | undefined;
+  if (updatedSince && isNaN(new Date(updatedSince).getTime())) {
+    console.error('❌ Invalid --updated-since date');
+    process.exit(2);
+  }
+
+  const limit = options.limit !== undefined ? parseInt(options.limit as string, 10) : undefined;
+  if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+    console.error('❌ --limit must be a positive number');
+    process.exit(2);
+  }
+
+  const filters: LocalIssueFilters = {};
+  for (const key of ['status', 'tracker', 'assignee', 'priority'] as const) {
+    const values = parseList(options[key] as string | undefined);
+    if (values) {
+      filters[key] = values;
+    }
+  }
+  const versions = parseList(options.targetVersion as string | undefined);
+  if (versions) {
+    filters.version = versions;
+  }
+  if (updatedSince) {
+    filters.updatedSince = updatedSince;
+  }
+
+  let issues: LocalIssue[] = filterLocalIssues(
+    await loadLocalIssues(outputDir, config.localNotes.anchors),
+    filters
+  );
+  if (query) {
+    issues = searchLocalIssues(issues, query);
+  }
+
+  // Relevance and recency read best with the strongest match first
+  const descending = options.desc === true || (!options.sort && query !== null);
+  issues = sortLocalIssues(issues, sort as LocalSortField, descending).slice(0, limit);
+
+  if (globalOpts.json) {
+    // Bodies are left out; the filename points at the full text
+    const omitBodies = (key: string, value: unknown) =>
+      key === 'content' || key === 'comments' ? undefined : value;
+    console.log(JSON.stringify(issues, omitBodies, 2));
+    return;
+  }
+
+  if (issues.length === 0) {
+    console.log(query ? `No local issues match "${query}"` : 'No local issues found');
+    return;
+  }
+
+  console.log(formatIssueTable(issues));
+  console.log('');
+  console.log(`${issues.length} issue${issues.length === 1 ? '' : 's'}`);
+}
+
+addLocalFilterOptions(
+  program.command('list').description('List locally synced issues (works offline)')
+).action(async (options, command) => {
+  await runLocalQuery(null, options, command.parent?.opts() || {});
+});
+
+addLocalFilterOptions(
+  program
+    .command('search')
+    .description('Full-text search over locally synced issues (works offline)')
+    .argument('<query>', 'Words to find in subject, description and comments')
+).action(async (query, options, command) => {
+  await runLocalQuery(query, options, command.parent?.opts() || {});
+});
+
+program
+  .command('state')
+  .description('Manage the local sync state manifest')
+  .addCommand(
+    new Command('rebuild')
+      .description('Rebuild the sync state manifest from the frontmatter of local files')
+      .action(async (options, command) => {
+        const globalOpts = command.parent?.parent?.opts() || {};
+        const config = await loadConfig(globalOpts.config);
+        const outputDir = globalOpts.outputDir || config.outputDir;
+
+        const state = await rebuildSyncState(outputDir);
+        const statePath = relative(process.cwd(), getStatePath(outputDir));
+        const issueCount = Object.keys(state.issues).length;
+
+        if (!globalOpts.dryRun) {
+          await saveSyncState(outputDir, state);
+        }
+
+        if (globalOpts.json) {
+          console.log(JSON.stringify({ success: true, statePath, issues: issueCount }, null, 2));
+        } else {
+          const verb = globalOpts.dryRun ? 'Would rebuild' : 'Rebuilt';
+          console.log(`✅ ${verb} ${statePath} with ${issueCount} issues`);
+        }
+      })
+  );
+
 program.parse();
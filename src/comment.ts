@@ -0,0 +1,97 @@
+import type { RedmineConfig } from './config.js';
+import {
+  RedmineApiClient,
+  describeRequestFailure,
+  type RedmineIssueUpdate,
+  type RequestFailure,
+} from './api.js';
+import { syncIssue, type SyncIssueResult } from './sync-issue.js';
+
+export interface AddCommentOptions {
+  privateNotes?: boolean;
+  /**
+   * Only build the request payload; nothing is sent or synced.
+   */
+  dryRun?: boolean;
+  outputDir?: string;
+  client?: RedmineApiClient;
+}
+
+export interface AddCommentResult {
+  success: boolean;
+  issueId: number;
+  message: string;
+  request: {
+    method: 'PUT';
+    path: string;
+    body: { issue: RedmineIssueUpdate };
+  };
+  /**
+   * Why the comment was not added: a missing issue, a comment Redmine refused, or
+   * Redmine being unreachable.
+   */
+  failure?: RequestFailure;
+  /**
+   * Result of refreshing the local file after the comment was added.
+   */
+  sync?: SyncIssueResult;
+}
+
+/**
+ * Adds a journal note to an issue and re-syncs the issue, so the local comments
+ * section and `lastJournalId` include the new note.
+ */
+export async function addComment(
+  issueId: number,
+  notes: string,
+  config: RedmineConfig,
+  options: AddCommentOptions = {}
+): Promise<AddCommentResult> {
+  const client = options.client ?? new RedmineApiClient(config);
+  const update: RedmineIssueUpdate = {
+    notes,
+    ...(options.privateNotes && { private_notes: true }),
+  };
+  const request = {
+    method: 'PUT' as const,
+    path: `/issues/${issueId}.json`,
+    body: { issue: update },
+  };
+
+  if (options.dryRun) {
+    return {
+      success: true,
+      issueId,
+      message: `Would add a ${options.privateNotes ? 'private ' : ''}comment to issue ${issueId} (dry run)`,
+      request,
+    };
+  }
+
+  try {
+    await client.updateIssue(issueId, update);
+  } catch (error) {
+    return {
+      success: false,
+      issueId,
+      request,
+      ...describeRequestFailure(error, {
+        failed: `Failed to add comment to issue ${issueId}`,
+        rejected: `Redmine rejected the comment on issue ${issueId}`,
+        issueId,
+      }),
+    };
+  }
+
+  const sync = await syncIssue(issueId, config, {
+    client,
+    ...(options.outputDir && { outputDir: options.outputDir }),
+  });
+
+  return {
+    success: true,
+    issueId,
+    message: `Added ${options.privateNotes ? 'private ' : ''}comment to issue ${issueId}`,
+    request,
+    sync,
+  };
+}
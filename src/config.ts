@@ -24,13 +24,49 @@ const CommentsConfigSchema = z.object({
     end: z.string().default('<!-- redmine:comments:end -->'),
   }),
   trackBy: z.enum(['journalId', 'createdOn']).default('journalId'),
+  mode: z.enum(['append', 'rebuild']).default('append'),
+});
+
+const LocalNotesConfigSchema = z.object({
+  anchors: z
+    .object({
+      start: z.string().default('<!-- local:notes:start -->'),
+      end: z.string().default('<!-- local:notes:end -->'),
+    })
+    .default({}),
+  onLocalEdits: z.enum(['keep', 'conflict', 'overwrite']).default('keep'),
+});
+
+const CustomFieldRefSchema = z.union([z.string(), z.number()]);
+
+const CustomFieldsConfigSchema = z.object({
+  include: z.array(CustomFieldRefSchema).optional(),
+  exclude: z.array(CustomFieldRefSchema).default([]),
+  rename: z.record(z.string()).default({}),
+  sections: z.array(CustomFieldRefSchema).default([]),
+  longTextAsSections: z.boolean().default(false),
+});
+
+const AttachmentsConfigSchema = z.object({
+  download: z.boolean().default(false),
+  dir: z.string().default('attachments'),
+  maxSizeBytes: z
+    .number()
+    .min(0)
+    .default(10 * 1024 * 1024),
+  contentTypes: z.array(z.string()).default([]),
 });
 
 const DefaultsConfigSchema = z.object({
-  include: z.array(z.enum(['journals', 'relations', 'attachments'])).default(['journals']),
+  include: z
+    .array(z.enum(['journals', 'relations', 'attachments', 'watchers', 'children', 'time_entries']))
+    .default(['journals']),
   status: z.string().default('*'),
   pageSize: z.number().min(1).max(100).default(100),
   concurrency: z.number().min(1).max(10).default(4),
+  requestsPerSecond: z.number().positive().optional(),
+  watermarkOverlapSeconds: z.number().min(0).default(300),
+  pruneMode: z.enum(['archive', 'delete']).default('archive'),
   retry: RetryConfigSchema.default({}),
 });
 
@@ -47,14 +83,22 @@ const RedmineConfigSchema = z.object({
   defaults: DefaultsConfigSchema.default({}),
   filename: FilenameConfigSchema.default({}),
   comments: CommentsConfigSchema.default({}),
+  localNotes: LocalNotesConfigSchema.default({}),
+  textFormatting: z.enum(['textile', 'markdown', 'commonmark']).default('markdown'),
+  customFields: CustomFieldsConfigSchema.default({}),
+  attachments: AttachmentsConfigSchema.default({}),
 });
 
 export type RedmineConfig = z.infer<typeof RedmineConfigSchema>;
 export type RetryConfig = z.infer<typeof RetryConfigSchema>;
 export type FilenameConfig = z.infer<typeof FilenameConfigSchema>;
 export type CommentsConfig = z.infer<typeof CommentsConfigSchema>;
+export type LocalNotesConfig = z.infer<typeof LocalNotesConfigSchema>;
 export type DefaultsConfig = z.infer<typeof DefaultsConfigSchema>;
+export type CustomFieldsConfig = z.infer<typeof CustomFieldsConfigSchema>;
+export type AttachmentsConfig = z.infer<typeof AttachmentsConfigSchema>;
 export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
+export type TextFormatting = RedmineConfig['textFormatting'];
 
 export async function loadConfig(configPath?: string): Promise<RedmineConfig> {
   const filePath = configPath ?? resolve(process.cwd(), 'redmine.config.yaml');
@@ -0,0 +1,342 @@
+import type { RedmineConfig } from './config.js';
+import { RedmineApiClient, type RedmineIssue } from './api.js';
+import { getRelationEnd } from './mappers.js';
+import { convertRedmineText } from './textile.util.js';
+
+export interface ContextIssueSummary {
+  id: number;
+  subject: string;
+  tracker?: string;
+  status?: string;
+  project?: string;
+  description?: string;
+}
+
+export interface ContextPack {
+  issue: ContextIssueSummary & {
+    url: string;
+    priority: string;
+    author: string;
+    assigned_to?: string;
+    fixed_version?: string;
+    created_on: string;
+    updated_on: string;
+  };
+  parent?: ContextIssueSummary;
+  related: Array<ContextIssueSummary & { relation: string }>;
+  children: ContextIssueSummary[];
+  comments: Array<{
+    author: string;
+    created_on: string;
+    notes: string;
+  }>;
+  attachments: Array<{
+    filename: string;
+    filesize: number;
+    content_type: string;
+  }>;
+  omitted: {
+    comments: number;
+    related: number;
+    children: number;
+    attachments: number;
+  };
+  estimatedTokens: number;
+}
+
+export type ContextFormat = 'markdown' | 'json';
+
+// Relations that constrain the work come first, loose references last
+const RELATION_PRIORITY = [
+  'blocked',
+  'blocks',
+  'precedes',
+  'follows',
+  'duplicates',
+  'duplicated',
+  'copied_from',
+  'copied_to',
+  'relates',
+];
+
+/**
+ * Rough token estimate (about four characters per token), good enough for budgeting.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function summarizeIssue(issue: RedmineIssue, config: RedmineConfig): ContextIssueSummary {
+  return {
+    id: issue.id,
+    subject: issue.subject,
+    tracker: issue.tracker.name,
+    status: issue.status.name,
+    project: issue.project.name,
+    ...(issue.description && {
+      description: convertRedmineText(issue.description, config.textFormatting),
+    }),
+  };
+}
+
+function relationRank(relation: string): number {
+  const index = RELATION_PRIORITY.indexOf(relation);
+  return index === -1 ? RELATION_PRIORITY.length : index;
+}
+
+/**
+ * Fetches an issue with its parent, children, related issues, comments and attachments
+ * from Redmine. Related issues that cannot be read are left out.
+ */
+export async function fetchContextPack(
+  issueId: number,
+  config: RedmineConfig,
+  client: RedmineApiClient = new RedmineApiClient(config)
+): Promise<ContextPack> {
+  const { issue } = await client.getIssue(issueId, [
+    'journals',
+    'relations',
+    'attachments',
+    'children',
+  ]);
+
+  const fetchSummary = async (id: number) => {
+    try {
+      return summarizeIssue((await client.getIssue(id)).issue, config);
+    } catch {
+      return null;
+    }
+  };
+
+  const parent = issue.parent ? await fetchSummary(issue.parent.id) : null;
+
+  const relationEnds = (issue.relations ?? []).map((relation) =>
+    getRelationEnd(relation, issue.id)
+  );
+  const related = (
+    await Promise.all(
+      relationEnds.map(async (end) => {
+        const summary = await fetchSummary(end.issueId);
+        return summary && { ...summary, relation: end.type };
+      })
+    )
+  )
+    .filter((summary): summary is ContextIssueSummary & { relation: string } => summary !== null)
+    .sort((a, b) => relationRank(a.relation) - relationRank(b.relation) || a.id - b.id);
+
+  const comments = (issue.journals ?? [])
+    .filter((journal) => journal.notes && journal.notes.trim() !== '')
+    .sort((a, b) => a.id - b.id)
+    .map((journal) => ({
+      author: journal.user.name,
+      created_on: journal.created_on,
+      notes: convertRedmineText(journal.notes ?? '', config.textFormatting),
+    }));
+
+  const summary = summarizeIssue(issue, config);
+
+  const pack: ContextPack = {
+    issue: {
+      ...summary,
+      url: `${config.baseUrl.replace(/\/$/, '')}/issues/${issue.id}`,
+      priority: issue.priority.name,
+      author: issue.author.name,
+      ...(issue.assigned_to && { assigned_to: issue.assigned_to.name }),
+      ...(issue.fixed_version && { fixed_version: issue.fixed_version.name }),
+      created_on: issue.created_on,
+      updated_on: issue.updated_on,
+    },
+    ...(parent && { parent }),
+    related,
+    children: (issue.children ?? []).map((child) => ({
+      id: child.id,
+      subject: child.subject,
+      ...(child.tracker && { tracker: child.tracker.name }),
+    })),
+    comments,
+    attachments: (issue.attachments ?? []).map((attachment) => ({
+      filename: attachment.filename,
+      filesize: attachment.filesize,
+      content_type: attachment.content_type,
+    })),
+    omitted: { comments: 0, related: 0, children: 0, attachments: 0 },
+    estimatedTokens: 0,
+  };
+
+  pack.estimatedTokens = estimateTokens(renderContextMarkdown(pack));
+  return pack;
+}
+
+function formatSummaryLine(summary: ContextIssueSummary): string {
+  const details = [summary.tracker, summary.status, summary.project].filter(Boolean).join(', ');
+  return `#${summary.id} ${summary.subject}${details ? ` (${details})` : ''}`;
+}
+
+function formatOmitted(count: number, noun: string): string {
+  return `_${count} ${noun} omitted to fit the token budget._`;
+}
+
+export function renderContextMarkdown(pack: ContextPack): string {
+  const { issue } = pack;
+  const sections: string[] = [];
+
+  const fields = [
+    `- Project: ${issue.project}`,
+    `- Tracker: ${issue.tracker}`,
+    `- Status: ${issue.status}`,
+    `- Priority: ${issue.priority}`,
+    `- Author: ${issue.author}`,
+    ...(issue.assigned_to ? [`- Assignee: ${issue.assigned_to}`] : []),
+    ...(issue.fixed_version ? [`- Target version: ${issue.fixed_version}`] : []),
+    `- Updated: ${issue.updated_on}`,
+    `- URL: ${issue.url}`,
+  ];
+  sections.push(`# #${issue.id} ${issue.subject}\n\n${fields.join('\n')}`);
+
+  if (issue.description) {
+    sections.push(`## Description\n\n${issue.description}`);
+  }
+
+  if (pack.comments.length > 0 || pack.omitted.comments > 0) {
+    const lines = ['## Recent Comments'];
+    if (pack.omitted.comments > 0) {
+      lines.push(formatOmitted(pack.omitted.comments, 'older comments'));
+    }
+    for (const comment of pack.comments) {
+      lines.push(`### ${comment.author} - ${comment.created_on}\n\n${comment.notes}`);
+    }
+    sections.push(lines.join('\n\n'));
+  }
+
+  if (pack.parent) {
+    const description = pack.parent.description ? `\n\n${pack.parent.description}` : '';
+    sections.push(`## Parent\n\n${formatSummaryLine(pack.parent)}${description}`);
+  }
+
+  if (pack.related.length > 0 || pack.omitted.related > 0) {
+    const lines = ['## Related Issues'];
+    for (const related of pack.related) {
+      const description = related.description ? `\n\n${related.description}` : '';
+      lines.push(`### ${related.relation} ${formatSummaryLine(related)}${description}`);
+    }
+    if (pack.omitted.related > 0) {
+      lines.push(formatOmitted(pack.omitted.related, 'related issues'));
+    }
+    sections.push(lines.join('\n\n'));
+  }
+
+  if (pack.children.length > 0 || pack.omitted.children > 0) {
+    const lines = pack.children.map((child) => `- ${formatSummaryLine(child)}`);
+    if (pack.omitted.children > 0) {
+      lines.push(`- ${formatOmitted(pack.omitted.children, 'child issues')}`);
+    }
+    sections.push(`## Child Issues\n\n${lines.join('\n')}`);
+  }
+
+  if (pack.attachments.length > 0 || pack.omitted.attachments > 0) {
+    const lines = pack.attachments.map(
+      (attachment) =>
+        `- ${attachment.filename} (${attachment.content_type}, ${attachment.filesize} bytes)`
+    );
+    if (pack.omitted.attachments > 0) {
+      lines.push(`- ${formatOmitted(pack.omitted.attachments, 'attachments')}`);
+    }
+    sections.push(`## Attachments\n\n${lines.join('\n')}`);
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+export function renderContextPack(pack: ContextPack, format: ContextFormat): string {
+  return format === 'json' ? `${JSON.stringify(pack, null, 2)}\n` : renderContextMarkdown(pack);
+}
+
+/**
+ * Shrinks a pack until its rendering fits `maxTokens`: descriptions of related issues go
+ * first, then the oldest comments, then the least relevant relations, children and
+ * attachments, and finally the issue description itself is cut short.
+ */
+export function fitContextPack(
+  pack: ContextPack,
+  maxTokens: number,
+  format: ContextFormat = 'markdown'
+): ContextPack {
+  const fitted: ContextPack = {
+    ...pack,
+    issue: { ...pack.issue },
+    related: pack.related.map((related) => ({ ...related })),
+    children: [...pack.children],
+    comments: [...pack.comments],
+    attachments: [...pack.attachments],
+    omitted: { ...pack.omitted },
+  };
+
+  const measure = () => estimateTokens(renderContextPack(fitted, format));
+  const fits = () => measure() <= maxTokens;
+
+  const reducers: Array<() => boolean> = [
+    () => {
+      const related = [...fitted.related].reverse().find((candidate) => candidate.description);
+      if (!related) {
+        return false;
+      }
+      delete related.description;
+      return true;
+    },
+    () => {
+      if (fitted.parent?.description === undefined) {
+        return false;
+      }
+      fitted.parent = { ...fitted.parent };
+      delete fitted.parent.description;
+      return true;
+    },
+    () => {
+      if (fitted.comments.length === 0) {
+        return false;
+      }
+      fitted.comments.shift();
+      fitted.omitted.comments++;
+      return true;
+    },
+    () => {
+      if (fitted.related.length === 0) {
+        return false;
+      }
+      fitted.related.pop();
+      fitted.omitted.related++;
+      return true;
+    },
+    () => {
+      if (fitted.children.length === 0) {
+        return false;
+      }
+      fitted.children.pop();
+      fitted.omitted.children++;
+      return true;
+    },
+    () => {
+      if (fitted.attachments.length === 0) {
+        return false;
+      }
+      fitted.attachments.pop();
+      fitted.omitted.attachments++;
+      return true;
+    },
+  ];
+
+  for (const reduce of reducers) {
+    while (!fits() && reduce()) {
+      // keep reducing with the same step
+    }
+  }
+
+  if (!fits() && fitted.issue.description) {
+    const overflow = (measure() - maxTokens) * 4;
+    const keep = Math.max(0, fitted.issue.description.length - overflow - 40);
+    fitted.issue.description = `${fitted.issue.description.substring(0, keep).trimEnd()}\n\n_[description truncated]_`;
+  }
+
+  fitted.estimatedTokens = measure();
+  return fitted;
+}
@@ -0,0 +1,352 @@
+export interface UnifiedDiffOptions {
+  /**
+   * Label of the old file in the `---` header, e.g. `a/123-title.md` or `/dev/null`.
+   */
+  fromFile: string;
+  /**
+   * Label of the new file in the `+++` header.
+   */
+  toFile: string;
+  /**
+   * Unchanged lines shown around each change (default: 3).
+   */
+  context?: number;
+}
+
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * Splits text into lines that keep their `\n`, so a missing newline at the end
+ * of a file shows up as a change of the last line.
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+interface Snake {
+  /**
+   * Where the snake starts and ends, relative to the start of both ranges.
+   */
+  fromX: number;
+  fromY: number;
+  toX: number;
+  toY: number;
+}
+
+/**
+ * Finds the middle snake of an optimal edit path between `a[aStart..aEnd)` and
+ * `b[bStart..bEnd)` by searching forward from the start and backward from the
+ * end until the two searches overlap. Both ranges must be non-empty and differ
+ * in their first and last lines.
+ */
+function findMiddleSnake(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number
+): Snake {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const delta = n - m;
+  const odd = delta % 2 !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  // Furthest x on each diagonal; the backward search counts x from the end
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      const down = forward[offset + k + 1] ?? 0;
+      const right = forward[offset + k - 1] ?? 0;
+      const fromX = k === -d || (k !== d && right < down) ? down : right + 1;
+      const fromY = fromX - k;
+      let x = fromX;
+      let y = fromY;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+
+      const c = delta - k;
+      if (odd && c >= -(d - 1) && c <= d - 1 && x + (backward[offset + c] ?? 0) >= n) {
+        return { fromX, fromY, toX: x, toY: y };
+      }
+    }
+
+    for (let c = -d; c <= d; c += 2) {
+      const down = backward[offset + c + 1] ?? 0;
+      const right = backward[offset + c - 1] ?? 0;
+      const fromX = c === -d || (c !== d && right < down) ? down : right + 1;
+      const fromY = fromX - c;
+      let x = fromX;
+      let y = fromY;
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[offset + c] = x;
+
+      const k = delta - c;
+      if (!odd && k >= -d && k <= d && x + (forward[offset + k] ?? 0) >= n) {
+        return { fromX: n - x, fromY: m - y, toX: n - fromX, toY: m - fromY };
+      }
+    }
+  }
+
+  throw new Error('Diff search did not converge');
+}
+
+/**
+ * Appends the diff of `a[aStart..aEnd)` and `b[bStart..bEnd)` to `out`, splitting
+ * the ranges at the middle snake (Myers' linear-space refinement) so memory stays
+ * proportional to the input rather than to the number of edits squared.
+ */
+function diffRange(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  out: DiffLine[]
+): void {
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    out.push({ type: ' ', text: a[aStart] ?? '' });
+    aStart++;
+    bStart++;
+  }
+
+  let suffix = 0;
+  while (
+    aStart < aEnd - suffix &&
+    bStart < bEnd - suffix &&
+    a[aEnd - 1 - suffix] === b[bEnd - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  aEnd -= suffix;
+  bEnd -= suffix;
+
+  if (aStart === aEnd || bStart === bEnd) {
+    for (let x = aStart; x < aEnd; x++) {
+      out.push({ type: '-', text: a[x] ?? '' });
+    }
+    for (let y = bStart; y < bEnd; y++) {
+      out.push({ type: '+', text: b[y] ?? '' });
+    }
+  } else {
+    // Both ranges differ at their ends, so each half has fewer edits than the whole
+    const snake = findMiddleSnake(a, aStart, aEnd, b, bStart, bEnd);
+    diffRange(a, aStart, aStart + snake.fromX, b, bStart, bStart + snake.fromY, out);
+    for (let x = aStart + snake.fromX; x < aStart + snake.toX; x++) {
+      out.push({ type: ' ', text: a[x] ?? '' });
+    }
+    diffRange(a, aStart + snake.toX, aEnd, b, bStart + snake.toY, bEnd, out);
+  }
+
+  for (let x = aEnd; x < aEnd + suffix; x++) {
+    out.push({ type: ' ', text: a[x] ?? '' });
+  }
+}
+
+/**
+ * Myers' O(ND) difference algorithm on lines, in linear space. Within each run of
+ * changes the removed lines come before the added ones, as in `diff -u`.
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  diffRange(before, 0, before.length, after, 0, after.length, lines);
+
+  const result: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  for (const line of lines) {
+    if (line.type === '+') {
+      added.push(line);
+      continue;
+    }
+    if (line.type === ' ' && added.length > 0) {
+      result.push(...added);
+      added = [];
+    }
+    result.push(line);
+  }
+  result.push(...added);
+  return result;
+}
+
+function formatRange(start: number, length: number): string {
+  // An empty range points at the line before it, as in GNU diff
+  const first = length === 0 ? start : start + 1;
+  return length === 1 ? `${first}` : `${first},${length}`;
+}
+
+/**
+ * Renders a unified diff (as produced by `diff -u`) between two texts. Returns an
+ * empty string when they are identical.
+ */
+export function createUnifiedDiff(
+  before: string,
+  after: string,
+  options: UnifiedDiffOptions
+): string {
+  if (before === after) {
+    return '';
+  }
+
+  const context = options.context ?? 3;
+  const lines = diffLines(splitLines(before), splitLines(after));
+
+  // Group changes whose context overlaps into the same hunk
+  const hunks: Array<{ start: number; end: number }> = [];
+  lines.forEach((line, index) => {
+    if (line.type === ' ') {
+      return;
+    }
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else {
+      hunks.push({ start, end });
+    }
+  });
+
+  const output = [`--- ${options.fromFile}`, `+++ ${options.toFile}`];
+  let oldLine = 0;
+  let newLine = 0;
+  let position = 0;
+
+  for (const hunk of hunks) {
+    for (const line of lines.slice(position, hunk.start)) {
+      oldLine += line.type !== '+' ? 1 : 0;
+      newLine += line.type !== '-' ? 1 : 0;
+    }
+    position = hunk.start;
+
+    const body = lines.slice(hunk.start, hunk.end);
+    const oldLength = body.filter((line) => line.type !== '+').length;
+    const newLength = body.filter((line) => line.type !== '-').length;
+
+    output.push(`@@ -${formatRange(oldLine, oldLength)} +${formatRange(newLine, newLength)} @@`);
+    for (const line of body) {
+      if (line.text.endsWith('\n')) {
+        output.push(`${line.type}${line.text.slice(0, -1)}`);
+      } else {
+        output.push(`${line.type}${line.text}`, NO_NEWLINE_MARKER);
+      }
+    }
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+interface DiffHunk {
+  /**
+   * Replaced range of the old lines, `end` exclusive; empty for pure insertions.
+   */
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+function toHunks(lines: DiffLine[]): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let position = 0;
+  let current: DiffHunk | null = null;
+
+  for (const line of lines) {
+    if (line.type === ' ') {
+      current = null;
+      position++;
+      continue;
+    }
+    if (!current) {
+      current = { start: position, end: position, lines: [] };
+      hunks.push(current);
+    }
+    if (line.type === '-') {
+      current.end = ++position;
+    } else {
+      current.lines.push(line.text);
+    }
+  }
+
+  return hunks;
+}
+
+function applyHunks(base: string[], start: number, end: number, hunks: DiffHunk[]): string[] {
+  const result: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    result.push(...base.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  result.push(...base.slice(position, end));
+  return result;
+}
+
+/**
+ * Line-based three-way merge as in `diff3 -m`: changes of either side are applied to
+ * the base, and identical changes on both sides count once. Returns null when both
+ * sides changed the same or adjacent lines differently.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): string | null {
+  const baseLines = splitLines(base);
+  const changes = [
+    ...toHunks(diffLines(baseLines, splitLines(ours))).map((hunk) => ({ hunk, side: 'ours' })),
+    ...toHunks(diffLines(baseLines, splitLines(theirs))).map((hunk) => ({ hunk, side: 'theirs' })),
+  ].sort((a, b) => a.hunk.start - b.hunk.start || a.hunk.end - b.hunk.end);
+
+  const merged: string[] = [];
+  let position = 0;
+  let index = 0;
+
+  while (index < changes.length) {
+    // Changes that overlap or touch form one region, whichever side they come from
+    const group: typeof changes = [];
+    let end = 0;
+    for (; index < changes.length; index++) {
+      const change = changes[index];
+      if (!change || (group.length > 0 && change.hunk.start > end)) {
+        break;
+      }
+      group.push(change);
+      end = Math.max(end, change.hunk.end);
+    }
+
+    const start = group[0]?.hunk.start ?? position;
+    const ourHunks = group.filter((change) => change.side === 'ours').map((change) => change.hunk);
+    const theirHunks = group
+      .filter((change) => change.side === 'theirs')
+      .map((change) => change.hunk);
+    const ourVersion = applyHunks(baseLines, start, end, ourHunks);
+    const theirVersion = applyHunks(baseLines, start, end, theirHunks);
+
+    if (
+      ourHunks.length > 0 &&
+      theirHunks.length > 0 &&
+      ourVersion.join('') !== theirVersion.join('')
+    ) {
+      return null;
+    }
+
+    merged.push(
+      ...baseLines.slice(position, start),
+      ...(ourHunks.length > 0 ? ourVersion : theirVersion)
+    );
+    position = end;
+  }
+
+  merged.push(...baseLines.slice(position));
+  return merged.join('');
+}
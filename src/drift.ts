@@ -0,0 +1,181 @@
+import { resolve } from 'node:path';
+import PQueue from 'p-queue';
+import type { RedmineConfig } from './config.js';
+import { RedmineApiClient, type RedmineIssue } from './api.js';
+import { extractNewJournals, shouldUpdateComments, shouldUpdateIssue } from './mappers.js';
+import { extractLastJournalId, readMarkdownFile } from './file.util.js';
+import { findStaleIssueIds } from './reconcile.js';
+import { getStateEntry, hasLocalEdits, loadSyncState, normalizeTimestamp } from './sync-state.js';
+
+export interface DriftEntry {
+  issueId: number;
+  filename?: string;
+  subject?: string;
+  localUpdatedOn?: string;
+  remoteUpdatedOn?: string;
+  newComments?: number;
+}
+
+export interface DriftReport {
+  success: boolean;
+  message?: string;
+  projectId: number;
+  status: string;
+  remoteIssues: number;
+  localIssues: number;
+  /**
+   * Remote issues without a local file.
+   */
+  newRemote: DriftEntry[];
+  /**
+   * Issues changed in Redmine since the local file was written.
+   */
+  updated: DriftEntry[];
+  /**
+   * Updated issues that also have journals the local file lacks.
+   */
+  newComments: DriftEntry[];
+  /**
+   * Local files whose issue is no longer in the remote scope.
+   */
+  localOnly: DriftEntry[];
+  /**
+   * Local files edited outside their local notes since the last sync wrote them.
+   */
+  handEdited: DriftEntry[];
+  inSync: boolean;
+}
+
+export interface DriftOptions {
+  status?: string;
+  outputDir?: string;
+  /**
+   * Fetch journals of updated issues to tell whether they have new comments.
+   */
+  checkComments?: boolean;
+}
+
+/**
+ * Compares the local files of the configured project with a lightweight remote
+ * listing. Nothing is written; only updated issues are fetched individually, and
+ * only when comments are checked.
+ */
+export async function checkDrift(
+  config: RedmineConfig,
+  options: DriftOptions = {}
+): Promise<DriftReport> {
+  const client = new RedmineApiClient(config);
+  const outputDir = options.outputDir || config.outputDir;
+  const status = options.status || config.defaults.status;
+  const projectId = config.project.id;
+  const notesAnchors = config.localNotes.anchors;
+
+  const report: DriftReport = {
+    success: true,
+    projectId,
+    status,
+    remoteIssues: 0,
+    localIssues: 0,
+    newRemote: [],
+    updated: [],
+    newComments: [],
+    localOnly: [],
+    handEdited: [],
+    inSync: true,
+  };
+
+  try {
+    const state = await loadSyncState(outputDir);
+    const remoteIssues = await client.getIssuesConcurrently(projectId, {
+      status,
+      pageSize: config.defaults.pageSize,
+    });
+    report.remoteIssues = remoteIssues.length;
+
+    const remoteIds = new Set(remoteIssues.map((issue) => issue.id));
+    const localIds = Object.entries(state.issues)
+      .filter(([, entry]) => entry.projectId === undefined || entry.projectId === projectId)
+      .map(([id]) => parseInt(id, 10));
+    report.localIssues = localIds.length;
+
+    const updatedIssues: Array<{ issue: RedmineIssue; frontmatter: Record<string, unknown> }> = [];
+
+    for (const issue of remoteIssues) {
+      const entry = getStateEntry(state, issue.id);
+      const file = entry
+        ? await readMarkdownFile(resolve(outputDir, entry.filename), notesAnchors)
+        : null;
+
+      if (!entry || !file?.rawContent) {
+        report.newRemote.push({
+          issueId: issue.id,
+          subject: issue.subject,
+          remoteUpdatedOn: issue.updated_on,
+        });
+        continue;
+      }
+
+      if (shouldUpdateIssue(issue, file.frontmatter)) {
+        report.updated.push({
+          issueId: issue.id,
+          filename: entry.filename,
+          subject: issue.subject,
+          localUpdatedOn: normalizeTimestamp(file.frontmatter.updated_on),
+          remoteUpdatedOn: issue.updated_on,
+        });
+        updatedIssues.push({ issue, frontmatter: file.frontmatter });
+      }
+    }
+
+    for (const issueId of localIds) {
+      const entry = getStateEntry(state, issueId);
+      if (!entry) {
+        continue;
+      }
+
+      const file = await readMarkdownFile(resolve(outputDir, entry.filename), notesAnchors);
+      if (hasLocalEdits(entry, file.rawContent, notesAnchors)) {
+        report.handEdited.push({ issueId, filename: entry.filename });
+      }
+    }
+
+    for (const issueId of findStaleIssueIds(state, projectId, remoteIds)) {
+      report.localOnly.push({ issueId, filename: getStateEntry(state, issueId)?.filename ?? '' });
+    }
+
+    if (options.checkComments !== false && updatedIssues.length > 0) {
+      const queue = new PQueue({ concurrency: config.defaults.concurrency });
+
+      await Promise.all(
+        updatedIssues.map(({ issue, frontmatter }) =>
+          queue.add(async () => {
+            const journals = (await client.getIssue(issue.id, ['journals'])).issue.journals ?? [];
+            if (shouldUpdateComments(journals, frontmatter)) {
+              const newJournals = extractNewJournals(journals, extractLastJournalId(frontmatter));
+              report.newComments.push({
+                issueId: issue.id,
+                subject: issue.subject,
+                newComments: newJournals.filter((journal) => journal.notes?.trim()).length,
+              });
+            }
+          })
+        )
+      );
+
+      report.newComments.sort((a, b) => a.issueId - b.issueId);
+    }
+
+    report.inSync =
+      report.newRemote.length === 0 &&
+      report.updated.length === 0 &&
+      report.localOnly.length === 0 &&
+      report.handEdited.length === 0;
+
+    return report;
+  } catch (error) {
+    report.success = false;
+    report.inSync = false;
+    report.message = `Failed to check drift: ${error instanceof Error ? error.message : String(error)}`;
+    return report;
+  }
+}
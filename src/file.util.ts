@@ -1,36 +1,87 @@
-import { readFile, writeFile, mkdir } from 'node:fs/promises';
-import { dirname } from 'node:path';
+import { readFile, writeFile, mkdir, readdir } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
 import matter from 'gray-matter';
-import type { CommentsConfig } from './config.js';
+import type { CommentsConfig, LocalNotesConfig } from './config.js';
 
 export interface MarkdownData {
   frontmatter: Record<string, unknown>;
   content: string;
   comments?: string;
+  /**
+   * Locally authored notes; the anchors are written even when this is empty.
+   */
+  notes?: string;
 }
 
 export interface ParsedMarkdown {
   frontmatter: Record<string, unknown>;
   content: string;
   comments: string | null;
+  notes: string | null;
   rawContent: string;
 }
 
+export type LocalNotesAnchors = LocalNotesConfig['anchors'];
+
+export const DEFAULT_LOCAL_NOTES_ANCHORS: LocalNotesAnchors = {
+  start: '<!-- local:notes:start -->',
+  end: '<!-- local:notes:end -->',
+};
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 export async function ensureDir(filePath: string): Promise<void> {
   const dir = dirname(filePath);
   await mkdir(dir, { recursive: true });
 }
 
-export async function readMarkdownFile(filePath: string): Promise<ParsedMarkdown> {
+export async function listMarkdownFiles(dir: string, ignoreDirs: string[] = []): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+
+    const entryPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!ignoreDirs.includes(entry.name)) {
+        files.push(...(await listMarkdownFiles(entryPath, ignoreDirs)));
+      }
+    } else if (entry.isFile() && entry.name.endsWith('.md')) {
+      files.push(entryPath);
+    }
+  }
+
+  return files.sort();
+}
+
+export async function readMarkdownFile(
+  filePath: string,
+  notesAnchors: LocalNotesAnchors = DEFAULT_LOCAL_NOTES_ANCHORS
+): Promise<ParsedMarkdown> {
   try {
     const content = await readFile(filePath, 'utf-8');
-    return parseMarkdownContent(content);
+    return parseMarkdownContent(content, notesAnchors);
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
       return {
         frontmatter: {},
         content: '',
         comments: null,
+        notes: null,
         rawContent: '',
       };
     }
@@ -38,29 +89,83 @@ export async function readMarkdownFile(filePath: string): Promise<ParsedMarkdown
   }
 }
 
-export function parseMarkdownContent(content: string): ParsedMarkdown {
+export function parseMarkdownContent(
+  content: string,
+  notesAnchors: LocalNotesAnchors = DEFAULT_LOCAL_NOTES_ANCHORS
+): ParsedMarkdown {
   if (!content.trim()) {
     return {
       frontmatter: {},
       content: '',
       comments: null,
+      notes: null,
       rawContent: content,
     };
   }
 
-  const { data: frontmatter, content: body } = matter(content);
+  // Without options gray-matter caches by content before parsing, so malformed YAML
+  // would only throw the first time and parse as empty frontmatter afterwards
+  const { data: frontmatter, content: body } = matter(content, {});
 
   const comments = extractCommentsSection(body);
-  const mainContent = removeCommentsSection(body);
+  const notes = extractLocalNotes(body, notesAnchors);
+  const mainContent = removeLocalNotes(removeCommentsSection(body), notesAnchors);
 
   return {
     frontmatter,
     content: mainContent,
     comments,
+    notes,
     rawContent: content,
   };
 }
 
+function findLocalNotes(
+  content: string,
+  anchors: LocalNotesAnchors
+): { startIndex: number; endIndex: number } | null {
+  const startIndex = content.indexOf(anchors.start);
+  if (startIndex === -1) {
+    return null;
+  }
+
+  const endIndex = content.indexOf(anchors.end, startIndex + anchors.start.length);
+  return endIndex === -1 ? null : { startIndex, endIndex };
+}
+
+/**
+ * Returns the text between the local notes anchors, or null when the file has no
+ * notes section. An empty section yields an empty string.
+ */
+export function extractLocalNotes(
+  content: string,
+  anchors: LocalNotesAnchors = DEFAULT_LOCAL_NOTES_ANCHORS
+): string | null {
+  const section = findLocalNotes(content, anchors);
+  if (!section) {
+    return null;
+  }
+
+  return content.substring(section.startIndex + anchors.start.length, section.endIndex).trim();
+}
+
+/**
+ * Cuts the local notes section, anchors included, and closes the gap it leaves.
+ */
+export function removeLocalNotes(
+  content: string,
+  anchors: LocalNotesAnchors = DEFAULT_LOCAL_NOTES_ANCHORS
+): string {
+  const section = findLocalNotes(content, anchors);
+  if (!section) {
+    return content;
+  }
+
+  const before = content.substring(0, section.startIndex).trimEnd();
+  const after = content.substring(section.endIndex + anchors.end.length).trimStart();
+  return before && after ? `${before}\n\n${after}` : before || after;
+}
+
 export function extractCommentsSection(content: string): string | null {
   const startMatch = content.match(/<!-- redmine:comments:start -->/);
   const endMatch = content.match(/<!-- redmine:comments:end -->/);
@@ -93,16 +198,26 @@ export function removeCommentsSection(content: string): string {
   return content.substring(0, startIndex) + content.substring(endIndex).trim();
 }
 
-export function buildMarkdownContent(data: MarkdownData, config: CommentsConfig): string {
+export function buildMarkdownContent(
+  data: MarkdownData,
+  config: CommentsConfig,
+  notesAnchors: LocalNotesAnchors = DEFAULT_LOCAL_NOTES_ANCHORS
+): string {
   let content = '';
 
   if (Object.keys(data.frontmatter).length > 0) {
-    const frontmatterYaml = matter.stringify('', data.frontmatter).replace(/^---\n|\n---\n?$/g, '');
+    // gray-matter follows the closing delimiter with the newline of the empty body
+    const frontmatterYaml = matter.stringify('', data.frontmatter).replace(/^---\n|---\n*$/g, '');
     content += `---\n${frontmatterYaml}---\n\n`;
   }
 
   content += data.content;
 
+  if (data.notes !== undefined) {
+    const notes = data.notes ? `${data.notes}\n` : '';
+    content += `\n\n${notesAnchors.start}\n${notes}${notesAnchors.end}`;
+  }
+
   if (data.comments) {
     content += `\n\n${config.anchors.start}\n${data.comments}\n${config.anchors.end}`;
   }
@@ -113,11 +228,13 @@ export function buildMarkdownContent(data: MarkdownData, config: CommentsConfig)
 export async function writeMarkdownFile(
   filePath: string,
   data: MarkdownData,
-  config: CommentsConfig
-): Promise<void> {
+  config: CommentsConfig,
+  notesAnchors: LocalNotesAnchors = DEFAULT_LOCAL_NOTES_ANCHORS
+): Promise<string> {
   await ensureDir(filePath);
-  const content = buildMarkdownContent(data, config);
+  const content = buildMarkdownContent(data, config, notesAnchors);
   await writeFile(filePath, content, 'utf-8');
+  return content;
 }
 
 export function extractIssueIdFromFrontmatter(frontmatter: Record<string, unknown>): number | null {
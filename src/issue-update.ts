@@ -0,0 +1,231 @@
+import type { RedmineConfig } from './config.js';
+import {
+  RedmineApiClient,
+  InvalidFieldError,
+  describeRequestFailure,
+  type RedmineIssue,
+  type RedmineIssueUpdate,
+  type RedmineNamedEntity,
+} from './api.js';
+import { syncIssue, type SyncIssueResult } from './sync-issue.js';
+
+/**
+ * Field changes as given on the command line; names are resolved to IDs.
+ */
+export interface IssueFieldChanges {
+  status?: string;
+  /**
+   * User name or ID, `me` for the owner of the API key, or `none` to unassign.
+   */
+  assignee?: string;
+  priority?: string;
+  /**
+   * Target version name or ID, or `none` to clear it.
+   */
+  version?: string;
+  doneRatio?: number;
+  subject?: string;
+  notes?: string;
+}
+
+export interface UpdateIssueOptions {
+  /**
+   * Resolve the changes and build the payload, but send nothing.
+   */
+  dryRun?: boolean;
+  outputDir?: string;
+  client?: RedmineApiClient;
+}
+
+export interface UpdateIssueResult {
+  success: boolean;
+  issueId: number;
+  message: string;
+  /**
+   * Why the update failed: bad arguments, a missing issue, a change Redmine refused,
+   * or Redmine being unreachable.
+   */
+  failure?: 'invalid' | 'not-found' | 'rejected' | 'unreachable';
+  request?: {
+    method: 'PUT';
+    path: string;
+    body: { issue: RedmineIssueUpdate };
+  };
+  /**
+   * Set when the update went through but its outcome could not be checked.
+   */
+  warning?: string;
+  sync?: SyncIssueResult;
+}
+
+const CLEAR_VALUE = 'none';
+
+/**
+ * Finds an entity by ID or case-insensitive name. Unlisted numeric IDs are passed
+ * through so Redmine can decide, e.g. for users the key cannot list.
+ */
+export function resolveEntityId(
+  entities: RedmineNamedEntity[],
+  value: string,
+  kind: string
+): number {
+  const wanted = value.trim().toLowerCase();
+  const match = entities.find(
+    (entity) => String(entity.id) === wanted || entity.name.toLowerCase() === wanted
+  );
+
+  if (match) {
+    return match.id;
+  }
+  if (/^\d+$/.test(wanted)) {
+    return parseInt(wanted, 10);
+  }
+
+  const available = entities.map((entity) => entity.name).join(', ');
+  throw new InvalidFieldError(
+    `Unknown ${kind} "${value}"${available ? ` (available: ${available})` : ''}`
+  );
+}
+
+/**
+ * Turns field changes into a `PUT /issues/:id.json` payload, looking up statuses,
+ * priorities, project members and versions of the issue's project.
+ */
+export async function resolveIssueUpdate(
+  issue: RedmineIssue,
+  changes: IssueFieldChanges,
+  client: RedmineApiClient
+): Promise<RedmineIssueUpdate> {
+  const update: RedmineIssueUpdate = {};
+  const enumerations = await client.getEnumerations(issue.project.id);
+
+  if (changes.status !== undefined) {
+    update.status_id = resolveEntityId(enumerations.statuses, changes.status, 'status');
+  }
+
+  if (changes.priority !== undefined) {
+    update.priority_id = resolveEntityId(enumerations.priorities, changes.priority, 'priority');
+  }
+
+  if (changes.assignee !== undefined) {
+    const assignee = changes.assignee.trim().toLowerCase();
+    if (assignee === CLEAR_VALUE) {
+      update.assigned_to_id = '';
+    } else if (assignee === 'me') {
+      update.assigned_to_id = (await client.getCurrentUser()).id;
+    } else {
+      update.assigned_to_id = resolveEntityId(enumerations.users, changes.assignee, 'assignee');
+    }
+  }
+
+  if (changes.version !== undefined) {
+    update.fixed_version_id =
+      changes.version.trim().toLowerCase() === CLEAR_VALUE
+        ? ''
+        : resolveEntityId(enumerations.versions, changes.version, 'version');
+  }
+
+  if (changes.doneRatio !== undefined) {
+    if (!Number.isInteger(changes.doneRatio) || changes.doneRatio < 0 || changes.doneRatio > 100) {
+      throw new InvalidFieldError('Done ratio must be a whole number from 0 to 100');
+    }
+    update.done_ratio = changes.doneRatio;
+  }
+
+  if (changes.subject !== undefined) {
+    if (changes.subject.trim() === '') {
+      throw new InvalidFieldError('Subject cannot be empty');
+    }
+    update.subject = changes.subject.trim();
+  }
+
+  if (changes.notes !== undefined && changes.notes.trim() !== '') {
+    update.notes = changes.notes.trim();
+  }
+
+  return update;
+}
+
+function describeFailure(issueId: number, error: unknown) {
+  return describeRequestFailure(error, {
+    failed: `Failed to update issue ${issueId}`,
+    rejected: `Redmine rejected the update of issue ${issueId}`,
+    issueId,
+  });
+}
+
+/**
+ * Updates status, assignee, priority, version, done ratio or subject of an issue
+ * by name and re-syncs the local file afterwards.
+ */
+export async function updateIssueFields(
+  issueId: number,
+  changes: IssueFieldChanges,
+  config: RedmineConfig,
+  options: UpdateIssueOptions = {}
+): Promise<UpdateIssueResult> {
+  const client = options.client ?? new RedmineApiClient(config);
+
+  let update: RedmineIssueUpdate;
+  try {
+    const { issue } = await client.getIssue(issueId);
+    update = await resolveIssueUpdate(issue, changes, client);
+  } catch (error) {
+    return { success: false, issueId, ...describeFailure(issueId, error) };
+  }
+
+  if (Object.keys(update).length === 0) {
+    return { success: false, issueId, failure: 'invalid', message: 'Nothing to update' };
+  }
+
+  const request = {
+    method: 'PUT' as const,
+    path: `/issues/${issueId}.json`,
+    body: { issue: update },
+  };
+
+  if (options.dryRun) {
+    return { success: true, issueId, message: `Would update issue ${issueId} (dry run)`, request };
+  }
+
+  try {
+    await client.updateIssue(issueId, update);
+  } catch (error) {
+    return { success: false, issueId, request, ...describeFailure(issueId, error) };
+  }
+
+  const sync = await syncIssue(issueId, config, {
+    client,
+    ...(options.outputDir && { outputDir: options.outputDir }),
+  });
+
+  // Depending on the version, Redmine drops a status the workflow does not allow
+  // instead of answering 422, so check what was actually saved
+  if (update.status_id !== undefined) {
+    let issue: RedmineIssue;
+    try {
+      issue = (await client.getIssue(issueId)).issue;
+    } catch (error) {
+      return {
+        success: true,
+        issueId,
+        message: `Updated issue ${issueId}`,
+        warning: `Could not check the saved status of issue ${issueId}: ${error instanceof Error ? error.message : String(error)}`,
+        request,
+        sync,
+      };
+    }
+    if (issue.status.id !== update.status_id) {
+      return {
+        success: false,
+        issueId,
+        failure: 'rejected',
+        message: `Issue ${issueId} kept status "${issue.status.name}": the workflow does not allow this transition for your role`,
+        request,
+        sync,
+      };
+    }
+  }
+
+  return { success: true, issueId, message: `Updated issue ${issueId}`, request, sync };
+}
@@ -0,0 +1,226 @@
+import { relative, sep } from 'node:path';
+import {
+  listMarkdownFiles,
+  readMarkdownFile,
+  extractIssueIdFromFrontmatter,
+  DEFAULT_LOCAL_NOTES_ANCHORS,
+  type LocalNotesAnchors,
+  type ParsedMarkdown,
+} from './file.util.js';
+import { ARCHIVE_DIRNAME, normalizeTimestamp } from './sync-state.js';
+
+export interface LocalIssue {
+  id: number;
+  /**
+   * Path relative to the output directory, with forward slashes.
+   */
+  filename: string;
+  subject: string;
+  status: string;
+  tracker: string;
+  priority: string;
+  assignee: string;
+  version: string;
+  updatedOn: string;
+  createdOn: string;
+  content: string;
+  comments: string;
+}
+
+export interface LocalIssueFilters {
+  status?: string[];
+  tracker?: string[];
+  assignee?: string[];
+  priority?: string[];
+  version?: string[];
+  updatedSince?: string;
+}
+
+export const LOCAL_SORT_FIELDS = [
+  'id',
+  'updated',
+  'created',
+  'subject',
+  'status',
+  'relevance',
+] as const;
+
+export type LocalSortField = (typeof LOCAL_SORT_FIELDS)[number];
+
+export interface LocalSearchMatch extends LocalIssue {
+  score: number;
+}
+
+function asText(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+}
+
+/**
+ * Reads every synced issue file below `outputDir` (archived files excluded). Files
+ * without an issue ID in their frontmatter are ignored, unreadable ones are skipped
+ * with a warning.
+ */
+export async function loadLocalIssues(
+  outputDir: string,
+  notesAnchors: LocalNotesAnchors = DEFAULT_LOCAL_NOTES_ANCHORS
+): Promise<LocalIssue[]> {
+  const files = await listMarkdownFiles(outputDir, [ARCHIVE_DIRNAME]);
+  const issues: LocalIssue[] = [];
+
+  for (const filePath of files) {
+    const filename = relative(outputDir, filePath).split(sep).join('/');
+    let parsed: ParsedMarkdown;
+    try {
+      parsed = await readMarkdownFile(filePath, notesAnchors);
+    } catch (error) {
+      console.warn(
+        `⚠️  Skipping ${filename}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      continue;
+    }
+
+    const id = extractIssueIdFromFrontmatter(parsed.frontmatter);
+    if (!id) {
+      continue;
+    }
+
+    const { frontmatter } = parsed;
+    issues.push({
+      id,
+      filename,
+      subject: asText(frontmatter.subject),
+      status: asText(frontmatter.status),
+      tracker: asText(frontmatter.tracker),
+      priority: asText(frontmatter.priority),
+      assignee: asText(frontmatter.assigned_to),
+      version: asText(frontmatter.fixed_version),
+      updatedOn: normalizeTimestamp(frontmatter.updated_on),
+      createdOn: normalizeTimestamp(frontmatter.created_on),
+      content: parsed.content.trim(),
+      comments: parsed.comments ?? '',
+    });
+  }
+
+  return issues;
+}
+
+function matchesAny(value: string, candidates: string[] | undefined): boolean {
+  if (!candidates || candidates.length === 0) {
+    return true;
+  }
+  return candidates.some((candidate) => candidate.toLowerCase() === value.toLowerCase());
+}
+
+export function filterLocalIssues(issues: LocalIssue[], filters: LocalIssueFilters): LocalIssue[] {
+  const updatedSince = filters.updatedSince ? new Date(filters.updatedSince).getTime() : null;
+
+  return issues.filter(
+    (issue) =>
+      matchesAny(issue.status, filters.status) &&
+      matchesAny(issue.tracker, filters.tracker) &&
+      matchesAny(issue.assignee, filters.assignee) &&
+      matchesAny(issue.priority, filters.priority) &&
+      matchesAny(issue.version, filters.version) &&
+      (updatedSince === null || new Date(issue.updatedOn).getTime() >= updatedSince)
+  );
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  let index = text.indexOf(term);
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(term, index + term.length);
+  }
+  return count;
+}
+
+/**
+ * Case-insensitive full-text search over subject, description and comments. Every
+ * term has to occur somewhere; subject hits weigh more in the score.
+ */
+export function searchLocalIssues(issues: LocalIssue[], query: string): LocalSearchMatch[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches: LocalSearchMatch[] = [];
+
+  for (const issue of issues) {
+    const subject = issue.subject.toLowerCase();
+    const body = `${issue.content}\n${issue.comments}`.toLowerCase();
+    let score = 0;
+
+    const allTermsFound = terms.every((term) => {
+      const subjectHits = countOccurrences(subject, term);
+      const bodyHits = countOccurrences(body, term);
+      score += subjectHits * 5 + bodyHits;
+      return subjectHits + bodyHits > 0 || `#${issue.id}` === term || `${issue.id}` === term;
+    });
+
+    if (allTermsFound) {
+      matches.push({ ...issue, score });
+    }
+  }
+
+  return matches;
+}
+
+export function sortLocalIssues<T extends LocalIssue>(
+  issues: T[],
+  field: LocalSortField,
+  descending = false
+): T[] {
+  const compare = (a: T, b: T): number => {
+    switch (field) {
+      case 'updated':
+        return a.updatedOn.localeCompare(b.updatedOn);
+      case 'created':
+        return a.createdOn.localeCompare(b.createdOn);
+      case 'subject':
+        return a.subject.localeCompare(b.subject);
+      case 'status':
+        return a.status.localeCompare(b.status);
+      case 'relevance':
+        return (
+          ((a as Partial<LocalSearchMatch>).score ?? 0) -
+          ((b as Partial<LocalSearchMatch>).score ?? 0)
+        );
+      default:
+        return 0;
+    }
+  };
+
+  return [...issues].sort((a, b) => {
+    const result = compare(a, b) || a.id - b.id;
+    return descending ? -result : result;
+  });
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.substring(0, maxLength - 1)}…` : value;
+}
+
+/**
+ * Renders issues as a fixed-width text table for the terminal.
+ */
+export function formatIssueTable(issues: LocalIssue[]): string {
+  const header = ['ID', 'Status', 'Tracker', 'Priority', 'Assignee', 'Updated', 'Subject'];
+  const rows = issues.map((issue) => [
+    `#${issue.id}`,
+    truncate(issue.status, 16),
+    truncate(issue.tracker, 12),
+    truncate(issue.priority, 10),
+    truncate(issue.assignee, 18),
+    issue.updatedOn.substring(0, 10),
+    truncate(issue.subject, 60),
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => (row[column] ?? '').length))
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column] ?? 0))
+      .join('  ')
+      .trimEnd();
+
+  return [formatRow(header), ...rows.map(formatRow)].join('\n');
+}
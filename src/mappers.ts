@@ -1,5 +1,38 @@
-import type { RedmineIssue, RedmineJournal } from './api.js';
-import type { CommentsConfig } from './config.js';
+import slugify from 'slugify';
+import type {
+  RedmineCustomField,
+  RedmineEnumerations,
+  RedmineIssue,
+  RedmineJournal,
+  RedmineJournalDetail,
+  RedmineNamedEntity,
+  RedmineRelation,
+  RedmineTimeEntry,
+} from './api.js';
+import type { CommentsConfig, CustomFieldsConfig, TextFormatting } from './config.js';
+import { rewriteAttachmentReferences, type AttachmentLinks } from './attachments.js';
+import { convertRedmineText } from './textile.util.js';
+
+export const COMMENT_SEPARATOR = '---';
+
+/**
+ * Title of the section summarizing time entries, appended after the custom fields.
+ */
+export const TIME_SPENT_TITLE = 'Time Spent';
+
+export interface MapperOptions {
+  textFormatting?: TextFormatting;
+  enumerations?: RedmineEnumerations;
+  customFields?: CustomFieldsConfig;
+  /**
+   * Local paths of downloaded attachments keyed by attachment ID, relative to the markdown file.
+   */
+  attachmentLinks?: AttachmentLinks;
+  /**
+   * Custom field names keyed by ID, for journal details; see `getCustomFieldNames`.
+   */
+  customFieldNames?: Record<string, string>;
+}
 
 export interface IssueFrontmatter {
   id: number;
@@ -11,7 +44,21 @@ export interface IssueFrontmatter {
   created_on: string;
   updated_on: string;
   project: string;
+  project_id: number;
   tracker: string;
+  fixed_version?: string;
+  category?: string;
+  parent_id?: number;
+  children?: number[];
+  start_date?: string;
+  due_date?: string;
+  estimated_hours?: number;
+  spent_hours?: number;
+  done_ratio?: number;
+  closed_on?: string;
+  is_private?: boolean;
+  watchers?: string[];
+  custom_fields?: Record<string, string | string[]>;
   lastJournalId?: number;
   relations?: Array<{
     type: string;
@@ -26,10 +73,142 @@ export interface IssueFrontmatter {
     author: string;
     created_on: string;
     content_url?: string;
+    local_path?: string;
   }>;
 }
 
-export function mapIssueToFrontmatter(issue: RedmineIssue): IssueFrontmatter {
+export interface MappedCustomFields {
+  frontmatter: Record<string, string | string[]>;
+  sections: Array<{ title: string; value: string }>;
+}
+
+function matchesCustomField(field: RedmineCustomField, refs: Array<string | number>): boolean {
+  return refs.some((ref) =>
+    typeof ref === 'number' ? ref === field.id : ref.toLowerCase() === field.name.toLowerCase()
+  );
+}
+
+/**
+ * Derives a frontmatter-friendly key from a custom field name, e.g.
+ * "Acceptance Criteria" becomes `acceptance_criteria`.
+ */
+export function toFrontmatterKey(field: RedmineCustomField): string {
+  const key = slugify(field.name, { replacement: '_', lower: true, strict: true });
+  return key || `cf_${field.id}`;
+}
+
+/**
+ * Splits custom fields into frontmatter values and body sections according to
+ * the allow/deny lists, renames and section settings. Empty values are dropped.
+ */
+export function mapCustomFields(
+  customFields: RedmineCustomField[] | undefined,
+  config?: CustomFieldsConfig
+): MappedCustomFields {
+  const mapped: MappedCustomFields = { frontmatter: {}, sections: [] };
+
+  for (const field of customFields ?? []) {
+    if (config?.include && !matchesCustomField(field, config.include)) {
+      continue;
+    }
+    if (config && matchesCustomField(field, config.exclude)) {
+      continue;
+    }
+
+    const value = Array.isArray(field.value)
+      ? field.value.filter((item) => item !== '')
+      : (field.value ?? '');
+
+    if (value.length === 0) {
+      continue;
+    }
+
+    const isLongText = typeof value === 'string' && value.includes('\n');
+    if (
+      config &&
+      (matchesCustomField(field, config.sections) || (config.longTextAsSections && isLongText))
+    ) {
+      mapped.sections.push({
+        title: field.name,
+        value: Array.isArray(value) ? value.map((item) => `- ${item}`).join('\n') : value,
+      });
+      continue;
+    }
+
+    const key = config?.rename[field.name] ?? config?.rename[field.id] ?? toFrontmatterKey(field);
+    mapped.frontmatter[key] = field.multiple && !Array.isArray(value) ? [value] : value;
+  }
+
+  return mapped;
+}
+
+/**
+ * Names of custom fields keyed by ID: the names the issue lists, completed by
+ * renames the config makes by ID for fields the issue no longer shows.
+ */
+export function getCustomFieldNames(
+  customFields: RedmineCustomField[] | undefined,
+  config?: CustomFieldsConfig
+): Record<string, string> {
+  const names: Record<string, string> = {};
+  for (const [ref, key] of Object.entries(config?.rename ?? {})) {
+    if (/^\d+$/.test(ref)) {
+      names[ref] = key;
+    }
+  }
+  for (const field of customFields ?? []) {
+    names[field.id.toString()] = field.name;
+  }
+  return names;
+}
+
+const INVERSE_RELATION_TYPES: Record<string, string> = {
+  duplicates: 'duplicated',
+  duplicated: 'duplicates',
+  blocks: 'blocked',
+  blocked: 'blocks',
+  precedes: 'follows',
+  follows: 'precedes',
+  copied_to: 'copied_from',
+  copied_from: 'copied_to',
+};
+
+/**
+ * Redmine returns a relation in the same form from both issues it links. Resolves the
+ * issue on the other end and the relation type as seen from `issueId`, e.g. `blocked`
+ * on the issue that another issue `blocks`.
+ */
+export function getRelationEnd(
+  relation: RedmineRelation,
+  issueId: number
+): { issueId: number; type: string } {
+  if (relation.issue_to_id === issueId && relation.issue_id !== undefined) {
+    return {
+      issueId: relation.issue_id,
+      type: INVERSE_RELATION_TYPES[relation.relation_type] ?? relation.relation_type,
+    };
+  }
+
+  return { issueId: relation.issue_to_id, type: relation.relation_type };
+}
+
+/**
+ * Checks a relation type against filters that name either direction, so `blocks`
+ * also matches `blocked`.
+ */
+export function matchesRelationType(type: string, filters: string[]): boolean {
+  if (filters.length === 0) {
+    return true;
+  }
+
+  const inverse = INVERSE_RELATION_TYPES[type];
+  return filters.some((filter) => filter === type || filter === inverse);
+}
+
+export function mapIssueToFrontmatter(
+  issue: RedmineIssue,
+  options: MapperOptions = {}
+): IssueFrontmatter {
   const frontmatter: IssueFrontmatter = {
     id: issue.id,
     subject: issue.subject,
@@ -39,6 +218,7 @@ export function mapIssueToFrontmatter(issue: RedmineIssue): IssueFrontmatter {
     created_on: issue.created_on,
     updated_on: issue.updated_on,
     project: issue.project.name,
+    project_id: issue.project.id,
     tracker: issue.tracker.name,
   };
 
@@ -46,24 +226,84 @@ export function mapIssueToFrontmatter(issue: RedmineIssue): IssueFrontmatter {
     frontmatter.assigned_to = issue.assigned_to.name;
   }
 
+  if (issue.fixed_version) {
+    frontmatter.fixed_version = issue.fixed_version.name;
+  }
+
+  if (issue.category) {
+    frontmatter.category = issue.category.name;
+  }
+
+  if (issue.parent) {
+    frontmatter.parent_id = issue.parent.id;
+  }
+
+  if (issue.children && issue.children.length > 0) {
+    frontmatter.children = issue.children.map((child) => child.id);
+  }
+
+  if (issue.start_date) {
+    frontmatter.start_date = issue.start_date;
+  }
+
+  if (issue.due_date) {
+    frontmatter.due_date = issue.due_date;
+  }
+
+  if (issue.estimated_hours !== undefined && issue.estimated_hours !== null) {
+    frontmatter.estimated_hours = issue.estimated_hours;
+  }
+
+  if (issue.spent_hours !== undefined) {
+    frontmatter.spent_hours = issue.spent_hours;
+  }
+
+  if (issue.done_ratio !== undefined) {
+    frontmatter.done_ratio = issue.done_ratio;
+  }
+
+  if (issue.closed_on) {
+    frontmatter.closed_on = issue.closed_on;
+  }
+
+  if (issue.is_private !== undefined) {
+    frontmatter.is_private = issue.is_private;
+  }
+
+  if (issue.watchers && issue.watchers.length > 0) {
+    frontmatter.watchers = issue.watchers.map((watcher) => watcher.name);
+  }
+
+  const customFields = mapCustomFields(issue.custom_fields, options.customFields);
+  if (Object.keys(customFields.frontmatter).length > 0) {
+    frontmatter.custom_fields = customFields.frontmatter;
+  }
+
   if (issue.relations && issue.relations.length > 0) {
-    frontmatter.relations = issue.relations.map((relation) => ({
-      type: relation.relation_type,
-      issue_id: relation.issue_to_id,
-      delay: relation.delay,
-    }));
+    frontmatter.relations = issue.relations.map((relation) => {
+      const end = getRelationEnd(relation, issue.id);
+      return {
+        type: end.type,
+        issue_id: end.issueId,
+        ...(typeof relation.delay === 'number' && { delay: relation.delay }),
+      };
+    });
   }
 
   if (issue.attachments && issue.attachments.length > 0) {
-    frontmatter.attachments = issue.attachments.map((attachment) => ({
-      id: attachment.id,
-      filename: attachment.filename,
-      filesize: attachment.filesize,
-      content_type: attachment.content_type,
-      author: attachment.author.name,
-      created_on: attachment.created_on,
-      content_url: attachment.content_url,
-    }));
+    frontmatter.attachments = issue.attachments.map((attachment) => {
+      const link = options.attachmentLinks?.[attachment.id];
+      return {
+        id: attachment.id,
+        filename: attachment.filename,
+        filesize: attachment.filesize,
+        content_type: attachment.content_type,
+        author: attachment.author.name,
+        created_on: attachment.created_on,
+        content_url: attachment.content_url,
+        ...(link && { local_path: link.path }),
+      };
+    });
   }
 
   if (issue.journals && issue.journals.length > 0) {
@@ -76,22 +316,191 @@ export function mapIssueToFrontmatter(issue: RedmineIssue): IssueFrontmatter {
   return frontmatter;
 }
 
-export function mapIssueToContent(issue: RedmineIssue): string {
-  let content = '';
+function renderText(text: string, options: MapperOptions): string {
+  const markdown = convertRedmineText(text, options.textFormatting ?? 'markdown');
+  return options.attachmentLinks
+    ? rewriteAttachmentReferences(markdown, options.attachmentLinks)
+    : markdown;
+}
+
+/**
+ * The description as Markdown, without the custom field sections that
+ * `mapIssueToContent` appends to it.
+ */
+export function mapIssueDescription(issue: RedmineIssue, options: MapperOptions = {}): string {
+  return issue.description ? renderText(issue.description, options) : '';
+}
+
+export function mapIssueToContent(issue: RedmineIssue, options: MapperOptions = {}): string {
+  let content = mapIssueDescription(issue, options);
+
+  const { sections } = mapCustomFields(issue.custom_fields, options.customFields);
+  for (const section of sections) {
+    const value = renderText(section.value, options);
+    content += `${content ? '\n\n' : ''}## ${section.title}\n\n${value}`;
+  }
 
-  if (issue.description) {
-    content += issue.description;
+  if (issue.time_entries && issue.time_entries.length > 0) {
+    const summary = mapTimeEntriesToSummary(issue.time_entries);
+    content += `${content ? '\n\n' : ''}## ${TIME_SPENT_TITLE}\n\n${summary}`;
   }
 
   return content;
 }
 
-export function mapJournalsToComments(journals: RedmineJournal[], config: CommentsConfig): string {
+function formatHours(hours: number): string {
+  return String(Math.round(hours * 100) / 100);
+}
+
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+/**
+ * Renders time entries as a table of hours per user and activity, ending with
+ * the total.
+ */
+export function mapTimeEntriesToSummary(timeEntries: RedmineTimeEntry[]): string {
+  const totals = new Map<string, { user: string; activity: string; hours: number }>();
+  for (const entry of timeEntries) {
+    const key = `${entry.user.id}:${entry.activity.id}`;
+    const total = totals.get(key) ?? {
+      user: entry.user.name,
+      activity: entry.activity.name,
+      hours: 0,
+    };
+    total.hours += entry.hours;
+    totals.set(key, total);
+  }
+
+  const rows = [...totals.values()]
+    .sort((a, b) => a.user.localeCompare(b.user) || a.activity.localeCompare(b.activity))
+    .map(
+      (row) =>
+        `| ${escapeTableCell(row.user)} | ${escapeTableCell(row.activity)} | ${formatHours(row.hours)} |`
+    );
+  const total = timeEntries.reduce((sum, entry) => sum + entry.hours, 0);
+
+  return [
+    '| User | Activity | Hours |',
+    '| --- | --- | ---: |',
+    ...rows,
+    `| **Total** | | **${formatHours(total)}** |`,
+  ].join('\n');
+}
+
+const ATTRIBUTE_LABELS: Record<string, string> = {
+  subject: 'Subject',
+  description: 'Description',
+  status_id: 'Status',
+  tracker_id: 'Tracker',
+  priority_id: 'Priority',
+  assigned_to_id: 'Assignee',
+  fixed_version_id: 'Target version',
+  category_id: 'Category',
+  parent_id: 'Parent task',
+  project_id: 'Project',
+  start_date: 'Start date',
+  due_date: 'Due date',
+  estimated_hours: 'Estimated time',
+  done_ratio: '% Done',
+  is_private: 'Private',
+};
+
+const ATTRIBUTE_ENUMERATIONS: Record<string, keyof RedmineEnumerations> = {
+  status_id: 'statuses',
+  tracker_id: 'trackers',
+  priority_id: 'priorities',
+  assigned_to_id: 'users',
+  fixed_version_id: 'versions',
+  category_id: 'categories',
+};
+
+function resolveName(entities: RedmineNamedEntity[] | undefined, value: string): string {
+  const entity = entities?.find((candidate) => candidate.id.toString() === value);
+  return entity ? entity.name : value;
+}
+
+function formatAttributeValue(
+  name: string,
+  value: string | null | undefined,
+  enumerations?: RedmineEnumerations
+): string {
+  if (value === null || value === undefined || value === '') {
+    return '(none)';
+  }
+
+  const enumeration = ATTRIBUTE_ENUMERATIONS[name];
+  if (enumeration) {
+    return resolveName(enumerations?.[enumeration], value);
+  }
+
+  if (name === 'parent_id') {
+    return `#${value}`;
+  }
+
+  if (name === 'done_ratio') {
+    return `${value}%`;
+  }
+
+  if (name === 'is_private') {
+    return value === '1' || value === 'true' ? 'Yes' : 'No';
+  }
+
+  return value;
+}
+
+/**
+ * Renders one journal detail as a readable line, resolving IDs through the
+ * project enumerations and custom field names when they are available.
+ */
+export function formatJournalDetail(
+  detail: RedmineJournalDetail,
+  enumerations?: RedmineEnumerations,
+  customFieldNames?: Record<string, string>
+): string {
+  const oldValue = detail.old_value ?? null;
+  const newValue = detail.new_value ?? null;
+
+  switch (detail.property) {
+    case 'attachment':
+      if (newValue) {
+        return `File added: ${newValue}`;
+      }
+      return `File deleted: ${oldValue ?? detail.name}`;
+    case 'relation':
+      if (newValue) {
+        return `Relation added: ${detail.name} #${newValue}`;
+      }
+      return `Relation removed: ${detail.name} #${oldValue ?? ''}`;
+    case 'cf': {
+      const label = customFieldNames?.[detail.name] ?? `Custom field #${detail.name}`;
+      return `${label}: ${oldValue || '(none)'} → ${newValue || '(none)'}`;
+    }
+    case 'attr': {
+      const label = ATTRIBUTE_LABELS[detail.name] ?? detail.name;
+      if (detail.name === 'description') {
+        return `${label} updated`;
+      }
+      const from = formatAttributeValue(detail.name, oldValue, enumerations);
+      const to = formatAttributeValue(detail.name, newValue, enumerations);
+      return `${label}: ${from} → ${to}`;
+    }
+    default:
+      return `${detail.name}: ${oldValue || '(none)'} → ${newValue || '(none)'}`;
+  }
+}
+
+export function mapJournalsToComments(
+  journals: RedmineJournal[],
+  config: CommentsConfig,
+  options: MapperOptions = {}
+): string {
   if (!journals || journals.length === 0) {
     return '';
   }
 
-  let comments = '';
+  const blocks: string[] = [];
 
   const sortedJournals = [...journals].sort((a, b) => {
     if (config.trackBy === 'journalId') {
@@ -101,30 +510,33 @@ export function mapJournalsToComments(journals: RedmineJournal[], config: Commen
   });
 
   for (const journal of sortedJournals) {
-    if (!journal.notes || journal.notes.trim() === '') {
+    const hasNotes = Boolean(journal.notes && journal.notes.trim() !== '');
+    const details = journal.details ?? [];
+    // Most journals only record field changes; skip the ones with nothing to show
+    if (!hasNotes && details.length === 0) {
       continue;
     }
 
     const date = new Date(journal.created_on).toISOString().split('T')[0];
     const time = new Date(journal.created_on).toTimeString().split(' ')[0].substring(0, 5);
 
-    comments += `## ${journal.user.name} - ${date} ${time}\n\n`;
-    comments += `${journal.notes}\n\n`;
+    const visibility = journal.private_notes ? ' (private)' : '';
+    let block = `## ${journal.user.name} - ${date} ${time}${visibility}\n\n`;
+    if (hasNotes) {
+      block += `${renderText(journal.notes ?? '', options)}\n\n`;
+    }
 
-    if (journal.details && journal.details.length > 0) {
-      comments += '**Changes:**\n';
-      for (const detail of journal.details) {
-        const oldValue = detail.old_value || '(none)';
-        const newValue = detail.new_value || '(none)';
-        comments += `- ${detail.name}: ${oldValue} → ${newValue}\n`;
+    if (details.length > 0) {
+      block += '**Changes:**\n';
+      for (const detail of details) {
+        block += `- ${formatJournalDetail(detail, options.enumerations, options.customFieldNames)}\n`;
       }
-      comments += '\n';
     }
 
-    comments += '---\n\n';
+    blocks.push(block.trim());
   }
 
-  return comments.trim();
+  return blocks.join(`\n\n${COMMENT_SEPARATOR}\n\n`);
 }
 
 export function extractNewJournals(
@@ -149,6 +561,14 @@ export function shouldUpdateIssue(
     return true;
   }
 
+  // Logging time changes the spent hours without touching updated_on
+  if (
+    remoteIssue.spent_hours !== undefined &&
+    remoteIssue.spent_hours !== localFrontmatter.spent_hours
+  ) {
+    return true;
+  }
+
   return new Date(remoteUpdatedOn) > new Date(localUpdatedOn);
 }
 
@@ -0,0 +1,404 @@
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { createInterface } from 'node:readline';
+import type { Readable, Writable } from 'node:stream';
+import PQueue from 'p-queue';
+import type { RedmineConfig } from './config.js';
+import { RedmineApiClient } from './api.js';
+import { fetchContextPack, fitContextPack, renderContextMarkdown } from './context.js';
+import { syncIssue, parseIssueReference } from './sync-issue.js';
+import { addComment } from './comment.js';
+import { syncIssueTree } from './sync-tree.js';
+import { syncProject } from './sync-project.js';
+import { loadSyncState } from './sync-state.js';
+
+/**
+ * Protocol revisions this server speaks, newest first.
+ */
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const ISSUE_URI_PREFIX = 'redmine://issues/';
+
+/**
+ * Tools that load and save the sync state manifest.
+ */
+const STATE_WRITING_TOOLS = ['sync_issue', 'sync_project', 'add_comment'];
+
+// JSON-RPC and MCP error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+const RESOURCE_NOT_FOUND = -32002;
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+interface McpToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+export interface McpServerOptions {
+  outputDir?: string;
+  version?: string;
+}
+
+class JsonRpcError extends Error {
+  constructor(
+    public code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'JsonRpcError';
+  }
+}
+
+const issueProperty = {
+  type: ['string', 'number'],
+  description: 'Issue ID, #ID or issue URL',
+};
+
+export const MCP_TOOLS: McpTool[] = [
+  {
+    name: 'get_issue',
+    description:
+      'Fetch an issue from Redmine as a markdown context document with its parent, related and child issues, recent comments and attachments.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issue: issueProperty,
+        max_tokens: { type: 'number', description: 'Optional token budget for the document' },
+      },
+      required: ['issue'],
+    },
+  },
+  {
+    name: 'search_issues',
+    description: 'Full-text search for Redmine issues in the configured project.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search terms' },
+        limit: { type: 'number', description: 'Maximum number of results (default: 25)' },
+        all_projects: { type: 'boolean', description: 'Search every visible project' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'sync_issue',
+    description: 'Sync one issue, optionally with its parents and children, to local markdown.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issue: issueProperty,
+        with_children: { type: 'boolean' },
+        with_parent: { type: 'boolean' },
+        refresh_comments: { type: 'boolean' },
+      },
+      required: ['issue'],
+    },
+  },
+  {
+    name: 'sync_project',
+    description: 'Sync the configured project to local markdown (incremental unless full is set).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', description: 'Status filter (default: config)' },
+        full: { type: 'boolean', description: 'Ignore the incremental watermark' },
+      },
+    },
+  },
+  {
+    name: 'add_comment',
+    description: 'Add a comment to an issue and refresh its local markdown file.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issue: issueProperty,
+        notes: { type: 'string', description: 'Comment text' },
+        private: { type: 'boolean', description: 'Add the comment as a private note' },
+      },
+      required: ['issue', 'notes'],
+    },
+  },
+];
+
+function textResult(text: string, isError = false): McpToolResult {
+  return { content: [{ type: 'text', text }], ...(isError && { isError: true }) };
+}
+
+function requireIssueId(args: Record<string, unknown>): number {
+  const issueId =
+    typeof args.issue === 'number' || typeof args.issue === 'string'
+      ? parseIssueReference(String(args.issue))
+      : null;
+
+  if (!issueId) {
+    throw new JsonRpcError(INVALID_PARAMS, 'issue must be an issue ID or URL');
+  }
+  return issueId;
+}
+
+function requireString(args: Record<string, unknown>, name: string): string {
+  const value = args[name];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new JsonRpcError(INVALID_PARAMS, `${name} must be a non-empty string`);
+  }
+  return value;
+}
+
+/**
+ * Creates the request handler behind `redmine mcp`. It takes one parsed JSON-RPC
+ * message and resolves to the response, or `null` for notifications.
+ */
+export function createMcpHandler(
+  config: RedmineConfig,
+  options: McpServerOptions = {}
+): (message: unknown) => Promise<JsonRpcResponse | null> {
+  const client = new RedmineApiClient(config);
+  const outputDir = options.outputDir || config.outputDir;
+  // Requests are handled concurrently, but overlapping state writes would overwrite
+  // each other's manifest entries, so those tools take turns
+  const stateWrites = new PQueue({ concurrency: 1 });
+
+  const callTool = async (name: string, args: Record<string, unknown>): Promise<McpToolResult> => {
+    switch (name) {
+      case 'get_issue': {
+        const issueId = requireIssueId(args);
+        let pack = await fetchContextPack(issueId, config, client);
+        if (typeof args.max_tokens === 'number' && args.max_tokens > 0) {
+          pack = fitContextPack(pack, args.max_tokens);
+        }
+        return textResult(renderContextMarkdown(pack));
+      }
+      case 'search_issues': {
+        const query = requireString(args, 'query');
+        const response = await client.searchIssues(query, {
+          ...(!args.all_projects && { projectId: config.project.id }),
+          ...(typeof args.limit === 'number' && { limit: args.limit }),
+        });
+        if (response.results.length === 0) {
+          return textResult(`No issues found for "${query}"`);
+        }
+        const lines = response.results.map((result) => `- ${result.title} (${result.url})`);
+        return textResult(
+          `${response.total_count} issues found for "${query}":\n${lines.join('\n')}`
+        );
+      }
+      case 'sync_issue': {
+        const issueId = requireIssueId(args);
+        const result =
+          args.with_children || args.with_parent
+            ? await syncIssueTree(issueId, config, {
+                outputDir,
+                ...(args.with_children === true && { withChildren: true }),
+                ...(args.with_parent === true && { withParent: true }),
+                ...(args.refresh_comments === true && { refreshComments: true }),
+              })
+            : await syncIssue(issueId, config, {
+                outputDir,
+                client,
+                ...(args.refresh_comments === true && { refreshComments: true }),
+              });
+        return textResult(JSON.stringify(result, null, 2), !result.success);
+      }
+      case 'sync_project': {
+        const result = await syncProject(config, {
+          outputDir,
+          ...(typeof args.status === 'string' && { status: args.status }),
+          ...(args.full === true && { full: true }),
+        });
+        return textResult(JSON.stringify(result, null, 2), !result.success);
+      }
+      case 'add_comment': {
+        const issueId = requireIssueId(args);
+        const notes = requireString(args, 'notes');
+        const result = await addComment(issueId, notes, config, {
+          outputDir,
+          client,
+          ...(args.private === true && { privateNotes: true }),
+        });
+        const syncMessage = result.sync ? ` ${result.sync.message}` : '';
+        return textResult(`${result.message}.${syncMessage}`, !result.success);
+      }
+      default:
+        throw new JsonRpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+  };
+
+  const listResources = async () => {
+    const state = await loadSyncState(outputDir);
+    const resources = Object.entries(state.issues)
+      .sort(([a], [b]) => parseInt(a, 10) - parseInt(b, 10))
+      .map(([issueId, entry]) => ({
+        uri: `${ISSUE_URI_PREFIX}${issueId}`,
+        name: entry.filename,
+        mimeType: 'text/markdown',
+      }));
+    return { resources };
+  };
+
+  const readResource = async (uri: string) => {
+    const issueId = uri.startsWith(ISSUE_URI_PREFIX)
+      ? parseInt(uri.substring(ISSUE_URI_PREFIX.length), 10)
+      : NaN;
+    const state = await loadSyncState(outputDir);
+    const entry = isNaN(issueId) ? undefined : state.issues[issueId.toString()];
+
+    if (!entry) {
+      throw new JsonRpcError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+    }
+
+    const text = await readFile(resolve(outputDir, entry.filename), 'utf-8');
+    return { contents: [{ uri, mimeType: 'text/markdown', text }] };
+  };
+
+  const dispatch = async (method: string, params: Record<string, unknown>): Promise<unknown> => {
+    switch (method) {
+      case 'initialize': {
+        const requested = params.protocolVersion;
+        return {
+          protocolVersion:
+            typeof requested === 'string' && MCP_PROTOCOL_VERSIONS.includes(requested)
+              ? requested
+              : MCP_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {}, resources: {} },
+          serverInfo: { name: 'redmine', version: options.version ?? '0.0.0' },
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: MCP_TOOLS };
+      case 'tools/call': {
+        if (typeof params.name !== 'string') {
+          throw new JsonRpcError(INVALID_PARAMS, 'Tool name is required');
+        }
+        const args = (params.arguments ?? {}) as Record<string, unknown>;
+        const name = params.name;
+        try {
+          return STATE_WRITING_TOOLS.includes(name)
+            ? await stateWrites.add(() => callTool(name, args), { throwOnTimeout: true })
+            : await callTool(name, args);
+        } catch (error) {
+          if (error instanceof JsonRpcError) {
+            throw error;
+          }
+          // Tool failures are reported to the model, not as protocol errors
+          return textResult(error instanceof Error ? error.message : String(error), true);
+        }
+      }
+      case 'resources/list':
+        return listResources();
+      case 'resources/read':
+        if (typeof params.uri !== 'string') {
+          throw new JsonRpcError(INVALID_PARAMS, 'Resource uri is required');
+        }
+        return readResource(params.uri);
+      default:
+        throw new JsonRpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  };
+
+  return async (message: unknown) => {
+    const request = message as {
+      jsonrpc?: unknown;
+      id?: string | number | null;
+      method?: unknown;
+      params?: unknown;
+    };
+
+    if (!request || typeof request !== 'object' || typeof request.method !== 'string') {
+      return {
+        jsonrpc: '2.0',
+        id: request?.id ?? null,
+        error: { code: INVALID_REQUEST, message: 'Invalid request' },
+      };
+    }
+
+    const isNotification = request.id === undefined;
+    const params = (request.params ?? {}) as Record<string, unknown>;
+
+    try {
+      const result = await dispatch(request.method, params);
+      return isNotification ? null : { jsonrpc: '2.0', id: request.id ?? null, result };
+    } catch (error) {
+      if (isNotification) {
+        return null;
+      }
+      return {
+        jsonrpc: '2.0',
+        id: request.id ?? null,
+        error:
+          error instanceof JsonRpcError
+            ? { code: error.code, message: error.message }
+            : {
+                code: INTERNAL_ERROR,
+                message: error instanceof Error ? error.message : String(error),
+              },
+      };
+    }
+  };
+}
+
+/**
+ * Runs the MCP server over newline-delimited JSON-RPC until the input ends. Only
+ * protocol messages are written to the output stream.
+ */
+export async function runMcpServer(
+  config: RedmineConfig,
+  options: McpServerOptions & { input?: Readable; output?: Writable } = {}
+): Promise<void> {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const handle = createMcpHandler(config, options);
+  const pending = new Set<Promise<void>>();
+
+  const send = (response: JsonRpcResponse) => {
+    output.write(`${JSON.stringify(response)}\n`);
+  };
+
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  for await (const line of lines) {
+    if (line.trim() === '') {
+      continue;
+    }
+
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      send({ jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } });
+      continue;
+    }
+
+    // Requests run concurrently so a long sync does not block pings or reads
+    const task = handle(message).then((response) => {
+      if (response) {
+        send(response);
+      }
+    });
+    pending.add(task);
+    void task.finally(() => pending.delete(task));
+  }
+
+  await Promise.all(pending);
+}
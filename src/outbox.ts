@@ -0,0 +1,378 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { RedmineConfig } from './config.js';
+import { RedmineApiClient, RedmineApiError } from './api.js';
+import { addComment } from './comment.js';
+import { updateIssueFields, type IssueFieldChanges } from './issue-update.js';
+import { pushIssue } from './push.js';
+import { logTime } from './time-log.js';
+import { ensureDir } from './file.util.js';
+import { loadSyncState, getStateEntry } from './sync-state.js';
+
+export const OUTBOX_FILENAME = '.redmine-outbox.json';
+export const OUTBOX_VERSION = 1;
+
+interface OutboxEntryBase {
+  id: number;
+  issueId: number;
+  queuedAt: string;
+  /**
+   * `updated_on` of the local copy when the entry was queued. Replaying is refused
+   * when the issue changed in Redmine since then.
+   */
+  expectedUpdatedOn?: string;
+  attempts: number;
+  lastError?: string;
+  /**
+   * Set when Redmine refused the entry; it is kept for review until dropped.
+   */
+  failed?: boolean;
+}
+
+export type OutboxEntry =
+  | (OutboxEntryBase & { action: 'comment'; notes: string; privateNotes?: boolean })
+  | (OutboxEntryBase & { action: 'update'; changes: IssueFieldChanges })
+  | (OutboxEntryBase & { action: 'push'; strategy?: 'force' | 'merge' })
+  | (OutboxEntryBase & {
+      action: 'time';
+      hours: number;
+      activity?: string;
+      comment?: string;
+      /**
+       * Fixed when queuing, so a later replay books the time on the right day.
+       */
+      spentOn: string;
+    });
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type NewOutboxEntry = DistributiveOmit<
+  OutboxEntry,
+  'id' | 'queuedAt' | 'expectedUpdatedOn' | 'attempts' | 'lastError' | 'failed'
+>;
+
+export interface Outbox {
+  version: number;
+  entries: OutboxEntry[];
+}
+
+export interface FlushOutboxOptions {
+  /**
+   * Replay entries even when their issue changed in Redmine since they were queued.
+   */
+  force?: boolean;
+  /**
+   * Retry entries Redmine refused before.
+   */
+  retryFailed?: boolean;
+  dryRun?: boolean;
+  outputDir?: string;
+  client?: RedmineApiClient;
+}
+
+export interface FlushOutboxEntryResult {
+  entry: OutboxEntry;
+  /**
+   * `pending` entries were not tried: Redmine became unreachable, or an earlier
+   * entry of the same issue is still in the outbox.
+   */
+  status: 'sent' | 'conflict' | 'failed' | 'pending';
+  message: string;
+}
+
+export interface FlushOutboxResult {
+  success: boolean;
+  sent: number;
+  conflicts: number;
+  failed: number;
+  pending: number;
+  /**
+   * Whether the flush stopped because Redmine could not be reached.
+   */
+  unreachable: boolean;
+  results: FlushOutboxEntryResult[];
+}
+
+export function getOutboxPath(outputDir: string): string {
+  return join(outputDir, OUTBOX_FILENAME);
+}
+
+export async function loadOutbox(outputDir: string): Promise<Outbox> {
+  try {
+    const outbox = JSON.parse(await readFile(getOutboxPath(outputDir), 'utf-8')) as Outbox;
+    if (outbox.version !== OUTBOX_VERSION || !Array.isArray(outbox.entries)) {
+      throw new Error(`Unsupported outbox format in ${getOutboxPath(outputDir)}`);
+    }
+    return outbox;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { version: OUTBOX_VERSION, entries: [] };
+    }
+    throw error;
+  }
+}
+
+export async function saveOutbox(outputDir: string, outbox: Outbox): Promise<void> {
+  const outboxPath = getOutboxPath(outputDir);
+  await ensureDir(outboxPath);
+  await writeFile(outboxPath, `${JSON.stringify(outbox, null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * Appends a write to the outbox, remembering the `updated_on` of the synced issue
+ * for the conflict check on replay.
+ */
+export async function queueOutboxEntry(
+  outputDir: string,
+  entry: NewOutboxEntry
+): Promise<OutboxEntry> {
+  const outbox = await loadOutbox(outputDir);
+  const stateEntry = getStateEntry(await loadSyncState(outputDir), entry.issueId);
+
+  const queued = {
+    ...entry,
+    id: Math.max(0, ...outbox.entries.map((existing) => existing.id)) + 1,
+    queuedAt: new Date().toISOString(),
+    ...(stateEntry?.updated_on && { expectedUpdatedOn: stateEntry.updated_on }),
+    attempts: 0,
+  } as OutboxEntry;
+
+  outbox.entries.push(queued);
+  await saveOutbox(outputDir, outbox);
+  return queued;
+}
+
+/**
+ * Removes entries by ID, or all failed entries. Returns the removed entries.
+ */
+export async function dropOutboxEntries(
+  outputDir: string,
+  selection: { ids?: number[]; failed?: boolean; all?: boolean }
+): Promise<OutboxEntry[]> {
+  const outbox = await loadOutbox(outputDir);
+  const isDropped = (entry: OutboxEntry) =>
+    Boolean(selection.all) ||
+    (selection.failed === true && entry.failed === true) ||
+    (selection.ids?.includes(entry.id) ?? false);
+
+  const dropped = outbox.entries.filter(isDropped);
+  if (dropped.length > 0) {
+    outbox.entries = outbox.entries.filter((entry) => !isDropped(entry));
+    await saveOutbox(outputDir, outbox);
+  }
+  return dropped;
+}
+
+export function describeOutboxEntry(entry: OutboxEntry): string {
+  switch (entry.action) {
+    case 'comment':
+      return `${entry.privateNotes ? 'private ' : ''}comment on issue ${entry.issueId}`;
+    case 'update':
+      return `update of issue ${entry.issueId} (${Object.keys(entry.changes).join(', ')})`;
+    case 'push':
+      return `push of issue ${entry.issueId}${entry.strategy ? ` (${entry.strategy})` : ''}`;
+    case 'time':
+      return `${entry.hours} h logged on issue ${entry.issueId} for ${entry.spentOn}`;
+  }
+}
+
+type ReplayOutcome = { status: 'sent' | 'conflict' | 'failed' | 'unreachable'; message: string };
+
+async function replayEntry(
+  entry: OutboxEntry,
+  config: RedmineConfig,
+  options: FlushOutboxOptions & { client: RedmineApiClient; strategy?: 'force' | 'merge' }
+): Promise<ReplayOutcome> {
+  const writeOptions = {
+    client: options.client,
+    ...(options.dryRun && { dryRun: true }),
+    ...(options.outputDir && { outputDir: options.outputDir }),
+  };
+
+  switch (entry.action) {
+    case 'comment': {
+      const result = await addComment(entry.issueId, entry.notes, config, {
+        ...writeOptions,
+        ...(entry.privateNotes && { privateNotes: true }),
+      });
+      if (result.success) {
+        return { status: 'sent', message: result.message };
+      }
+      return {
+        status: result.failure === 'unreachable' ? 'unreachable' : 'failed',
+        message: result.message,
+      };
+    }
+    case 'update': {
+      const result = await updateIssueFields(entry.issueId, entry.changes, config, writeOptions);
+      if (result.success) {
+        return { status: 'sent', message: result.message };
+      }
+      return {
+        status: result.failure === 'unreachable' ? 'unreachable' : 'failed',
+        message: result.message,
+      };
+    }
+    case 'push': {
+      const strategy =
+        options.strategy === 'force' ? 'force' : (entry.strategy ?? options.strategy);
+      const result = await pushIssue(entry.issueId, config, {
+        ...writeOptions,
+        ...(strategy && { strategy }),
+      });
+      if (result.success) {
+        return { status: 'sent', message: result.message };
+      }
+      if (result.failure === 'conflict' || result.failure === 'unreachable') {
+        return { status: result.failure, message: result.message };
+      }
+      return { status: 'failed', message: result.message };
+    }
+    case 'time': {
+      const result = await logTime(entry.issueId, entry.hours, config, {
+        ...writeOptions,
+        spentOn: entry.spentOn,
+        ...(entry.activity && { activity: entry.activity }),
+        ...(entry.comment && { comment: entry.comment }),
+      });
+      if (result.success) {
+        return { status: 'sent', message: result.message };
+      }
+      return {
+        status: result.failure === 'unreachable' ? 'unreachable' : 'failed',
+        message: result.message,
+      };
+    }
+  }
+}
+
+/**
+ * Replays the outbox in order. Each issue's entries stay in order: after a
+ * conflict or failure, later entries of that issue wait. When Redmine is
+ * unreachable, even after the client's retries, the flush stops and keeps the
+ * remaining entries queued.
+ */
+export async function flushOutbox(
+  config: RedmineConfig,
+  options: FlushOutboxOptions = {}
+): Promise<FlushOutboxResult> {
+  const client = options.client ?? new RedmineApiClient(config);
+  const outputDir = options.outputDir || config.outputDir;
+  const outbox = await loadOutbox(outputDir);
+
+  const results: FlushOutboxEntryResult[] = [];
+  const blockedIssues = new Set<number>();
+  // `updated_on` after our own replays, which must not count as conflicts
+  const replayedUpdatedOn = new Map<number, string>();
+  let unreachable = false;
+
+  // Sent entries leave the outbox right away, so a later error cannot send them twice
+  const removeSent = async (entry: OutboxEntry) => {
+    outbox.entries = outbox.entries.filter((queued) => queued.id !== entry.id);
+    await saveOutbox(outputDir, outbox);
+  };
+
+  for (const entry of [...outbox.entries]) {
+    if (unreachable || blockedIssues.has(entry.issueId)) {
+      results.push({
+        entry,
+        status: 'pending',
+        message: unreachable
+          ? 'Not tried: Redmine is unreachable'
+          : `Waiting for an earlier entry of issue ${entry.issueId}`,
+      });
+      continue;
+    }
+
+    if (entry.failed && !options.retryFailed) {
+      blockedIssues.add(entry.issueId);
+      results.push({ entry, status: 'failed', message: entry.lastError ?? 'Failed before' });
+      continue;
+    }
+
+    let outcome: ReplayOutcome | null = null;
+    const expectedUpdatedOn = replayedUpdatedOn.get(entry.issueId) ?? entry.expectedUpdatedOn;
+
+    // Pushes compare against the local file themselves, and time entries do not
+    // depend on what the issue says
+    const checksUpdatedOn = entry.action === 'comment' || entry.action === 'update';
+    if (!options.force && checksUpdatedOn && expectedUpdatedOn) {
+      try {
+        const { issue } = await client.getIssue(entry.issueId);
+        if (new Date(issue.updated_on).getTime() !== new Date(expectedUpdatedOn).getTime()) {
+          outcome = {
+            status: 'conflict',
+            message: `Issue ${entry.issueId} changed in Redmine since this was queued (${issue.updated_on})`,
+          };
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        outcome = {
+          status: error instanceof RedmineApiError && error.status ? 'failed' : 'unreachable',
+          message: `Failed to check issue ${entry.issueId}: ${reason}`,
+        };
+      }
+    }
+
+    // A push after our own replays of the same issue would conflict with those, so
+    // it merges with them; real remote edits to the same lines still conflict
+    const strategy = options.force
+      ? ('force' as const)
+      : replayedUpdatedOn.has(entry.issueId)
+        ? ('merge' as const)
+        : undefined;
+    outcome ??= await replayEntry(entry, config, {
+      ...options,
+      client,
+      ...(strategy && { strategy }),
+    });
+
+    if (outcome.status === 'unreachable') {
+      unreachable = true;
+      results.push({ entry, status: 'pending', message: outcome.message });
+      continue;
+    }
+
+    if (!options.dryRun) {
+      entry.attempts++;
+    }
+
+    if (outcome.status === 'sent') {
+      if (!options.dryRun) {
+        await removeSent(entry);
+        const { issue } = await client.getIssue(entry.issueId).catch(() => ({ issue: null }));
+        if (issue) {
+          replayedUpdatedOn.set(entry.issueId, issue.updated_on);
+        }
+      }
+    } else {
+      blockedIssues.add(entry.issueId);
+      entry.lastError = outcome.message;
+      if (outcome.status === 'failed') {
+        entry.failed = true;
+      } else {
+        delete entry.failed;
+      }
+    }
+
+    results.push({ entry, status: outcome.status, message: outcome.message });
+  }
+
+  // Records attempts and errors of the entries that stay queued
+  if (!options.dryRun) {
+    await saveOutbox(outputDir, outbox);
+  }
+
+  const count = (status: FlushOutboxEntryResult['status']) =>
+    results.filter((result) => result.status === status).length;
+
+  return {
+    success: results.every((result) => result.status === 'sent'),
+    sent: count('sent'),
+    conflicts: count('conflict'),
+    failed: count('failed'),
+    pending: count('pending'),
+    unreachable,
+    results,
+  };
+}
@@ -0,0 +1,465 @@
+import { readFile, rename, stat, unlink } from 'node:fs/promises';
+import { relative, resolve } from 'node:path';
+import type { RedmineConfig } from './config.js';
+import {
+  RedmineApiClient,
+  InvalidFieldError,
+  describeRequestFailure,
+  type RedmineIssue,
+  type RedmineIssueCreate,
+} from './api.js';
+import { toFrontmatterKey } from './mappers.js';
+import { resolveEntityId } from './issue-update.js';
+import {
+  syncIssue,
+  getSyncFailure,
+  parseIssueReference,
+  resolveIssueFilename,
+  type SyncIssueResult,
+} from './sync-issue.js';
+import { loadSyncState } from './sync-state.js';
+import {
+  ensureDir,
+  listMarkdownFiles,
+  parseMarkdownContent,
+  writeMarkdownFile,
+  extractIssueIdFromFrontmatter,
+  type ParsedMarkdown,
+} from './file.util.js';
+
+export interface PushNewOptions {
+  /**
+   * Resolve the draft and build the payload, but create nothing.
+   */
+  dryRun?: boolean;
+  outputDir?: string;
+  client?: RedmineApiClient;
+}
+
+export interface PushNewResult {
+  success: boolean;
+  /**
+   * The draft, relative to the working directory.
+   */
+  filePath: string;
+  message: string;
+  issueId?: number;
+  /**
+   * Why the draft was not pushed: an unusable draft, a draft Redmine refused, or
+   * Redmine being unreachable. When the issue was created but its file could not
+   * be written, this is why the sync failed instead, and `issueId` is set.
+   */
+  failure?: 'invalid' | 'not-found' | 'rejected' | 'unreachable' | 'local';
+  request?: {
+    method: 'POST';
+    path: '/issues.json';
+    body: { issue: RedmineIssueCreate };
+  };
+  /**
+   * Result of writing the created issue to its standard file.
+   */
+  sync?: SyncIssueResult;
+}
+
+export interface PushNewBatchResult {
+  success: boolean;
+  created: number;
+  failed: number;
+  /**
+   * Markdown files that already belong to an issue.
+   */
+  skipped: number;
+  results: PushNewResult[];
+}
+
+const SELF_ASSIGNEE = 'me';
+
+/**
+ * Reads a frontmatter value as text. YAML turns unquoted dates into `Date`s, which
+ * Redmine expects back as `YYYY-MM-DD`.
+ */
+function readText(frontmatter: Record<string, unknown>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = frontmatter[key];
+    if (value instanceof Date) {
+      return value.toISOString().slice(0, 10);
+    }
+    if (typeof value === 'string' && value.trim() !== '') {
+      return value.trim();
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+  }
+  return undefined;
+}
+
+function readNumber(frontmatter: Record<string, unknown>, key: string): number | undefined {
+  const text = readText(frontmatter, key);
+  if (text === undefined) {
+    return undefined;
+  }
+
+  const value = Number(text);
+  if (isNaN(value)) {
+    throw new InvalidFieldError(`${key} must be a number, got "${text}"`);
+  }
+  return value;
+}
+
+/**
+ * Takes the subject from the frontmatter, or from a leading `# Heading` which is
+ * then dropped from the description.
+ */
+function splitSubject(
+  frontmatter: Record<string, unknown>,
+  content: string
+): { subject: string; description: string } {
+  const body = content.trim();
+  const subject = readText(frontmatter, 'subject');
+  if (subject) {
+    return { subject, description: body };
+  }
+
+  const heading = body.match(/^# +(.+)$/m);
+  if (!heading || body.slice(0, heading.index).trim() !== '') {
+    throw new InvalidFieldError('Draft has no subject; add `subject:` or start with a # heading');
+  }
+
+  return {
+    subject: (heading[1] ?? '').trim(),
+    description: body.slice((heading.index ?? 0) + heading[0].length).trim(),
+  };
+}
+
+/**
+ * Turns a draft into a `POST /issues.json` payload for the configured project,
+ * resolving trackers, priorities, users, versions and custom fields by name. Keys
+ * follow the synced frontmatter, with `assignee`, `parent` and `version` as aliases.
+ */
+export async function resolveIssueDraft(
+  draft: ParsedMarkdown,
+  config: RedmineConfig,
+  client: RedmineApiClient
+): Promise<RedmineIssueCreate> {
+  const { frontmatter } = draft;
+  const projectId = config.project.id;
+  const { subject, description } = splitSubject(frontmatter, draft.content);
+  const create: RedmineIssueCreate = {
+    project_id: projectId,
+    subject,
+    ...(description && { description }),
+  };
+
+  const enumerations = await client.getEnumerations(projectId);
+  const tracker = readText(frontmatter, 'tracker');
+  if (tracker) {
+    create.tracker_id = resolveEntityId(enumerations.trackers, tracker, 'tracker');
+  }
+
+  const status = readText(frontmatter, 'status');
+  if (status) {
+    create.status_id = resolveEntityId(enumerations.statuses, status, 'status');
+  }
+
+  const priority = readText(frontmatter, 'priority');
+  if (priority) {
+    create.priority_id = resolveEntityId(enumerations.priorities, priority, 'priority');
+  }
+
+  const assignee = readText(frontmatter, 'assigned_to', 'assignee');
+  if (assignee) {
+    create.assigned_to_id =
+      assignee.toLowerCase() === SELF_ASSIGNEE
+        ? (await client.getCurrentUser()).id
+        : resolveEntityId(enumerations.users, assignee, 'assignee');
+  }
+
+  const version = readText(frontmatter, 'fixed_version', 'version');
+  if (version) {
+    create.fixed_version_id = resolveEntityId(enumerations.versions, version, 'version');
+  }
+
+  const category = readText(frontmatter, 'category');
+  if (category) {
+    create.category_id = resolveEntityId(enumerations.categories, category, 'category');
+  }
+
+  const parent = readText(frontmatter, 'parent_id', 'parent');
+  if (parent) {
+    const parentId = parseIssueReference(parent);
+    if (!parentId) {
+      throw new InvalidFieldError(`Invalid parent issue "${parent}"`);
+    }
+    create.parent_issue_id = parentId;
+  }
+
+  const startDate = readText(frontmatter, 'start_date');
+  if (startDate) {
+    create.start_date = startDate;
+  }
+
+  const dueDate = readText(frontmatter, 'due_date');
+  if (dueDate) {
+    create.due_date = dueDate;
+  }
+
+  const estimatedHours = readNumber(frontmatter, 'estimated_hours');
+  if (estimatedHours !== undefined) {
+    create.estimated_hours = estimatedHours;
+  }
+
+  const doneRatio = readNumber(frontmatter, 'done_ratio');
+  if (doneRatio !== undefined) {
+    if (!Number.isInteger(doneRatio) || doneRatio < 0 || doneRatio > 100) {
+      throw new InvalidFieldError('done_ratio must be a whole number from 0 to 100');
+    }
+    create.done_ratio = doneRatio;
+  }
+
+  if (typeof frontmatter.is_private === 'boolean') {
+    create.is_private = frontmatter.is_private;
+  }
+
+  const customFields = frontmatter.custom_fields;
+  if (customFields && typeof customFields === 'object' && !Array.isArray(customFields)) {
+    const definitions = await client.getProjectIssueCustomFields(projectId).catch(() => []);
+    const rename = config.customFields.rename;
+
+    create.custom_fields = Object.entries(customFields).map(([key, value]) => {
+      // Accept the name, the synced frontmatter key (renamed or derived) or the ID
+      const wanted = key.toLowerCase();
+      const field = definitions.find(
+        (definition) =>
+          String(definition.id) === wanted ||
+          definition.name.toLowerCase() === wanted ||
+          (rename[definition.name] ?? rename[definition.id]) === key ||
+          toFrontmatterKey({ ...definition, value: null }) === wanted
+      );
+      const id = field?.id ?? resolveEntityId(definitions, key, 'custom field');
+
+      const values = Array.isArray(value) ? value : [value];
+      const text = values.map((item) =>
+        item instanceof Date ? item.toISOString().slice(0, 10) : String(item ?? '')
+      );
+      return { id, value: Array.isArray(value) ? text : (text[0] ?? '') };
+    });
+  }
+
+  return create;
+}
+
+function describeFailure(error: unknown) {
+  return describeRequestFailure(error, {
+    failed: 'Failed to create issue',
+    rejected: 'Redmine rejected the draft',
+  });
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  return stat(path).then(
+    () => true,
+    () => false
+  );
+}
+
+/**
+ * Writes the created issue's `id` into a draft whose file could not be synced, so
+ * pushing it again cannot create a duplicate. Returns `message`, extended with what
+ * to do by hand when the draft cannot be written either.
+ */
+async function linkDraft(
+  draftPath: string,
+  draft: ParsedMarkdown,
+  issueId: number,
+  config: RedmineConfig,
+  message: string
+): Promise<string> {
+  try {
+    await writeMarkdownFile(
+      draftPath,
+      {
+        frontmatter: { id: issueId, ...draft.frontmatter },
+        content: draft.content,
+        ...(draft.notes !== null && { notes: draft.notes }),
+      },
+      config.comments,
+      config.localNotes.anchors
+    );
+    return message;
+  } catch {
+    return `${message}; add "id: ${issueId}" to ${relative(process.cwd(), draftPath)} before pushing it again`;
+  }
+}
+
+/**
+ * Creates an issue from a markdown draft and turns the draft into the issue's
+ * standard synced file: it is moved to the generated filename in the output
+ * directory and rewritten with the issue's frontmatter. Local notes are kept.
+ */
+export async function pushNewIssue(
+  draftPath: string,
+  config: RedmineConfig,
+  options: PushNewOptions = {}
+): Promise<PushNewResult> {
+  const client = options.client ?? new RedmineApiClient(config);
+  const outputDir = options.outputDir || config.outputDir;
+  const notesAnchors = config.localNotes.anchors;
+  const filePath = relative(process.cwd(), resolve(draftPath));
+
+  let draft: ParsedMarkdown;
+  try {
+    draft = parseMarkdownContent(await readFile(draftPath, 'utf-8'), notesAnchors);
+  } catch (error) {
+    return {
+      success: false,
+      filePath,
+      failure: 'invalid',
+      message: `Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const existingIssueId = extractIssueIdFromFrontmatter(draft.frontmatter);
+  if (existingIssueId) {
+    return {
+      success: false,
+      filePath,
+      issueId: existingIssueId,
+      failure: 'invalid',
+      message: `${filePath} already belongs to issue ${existingIssueId}`,
+    };
+  }
+
+  let create: RedmineIssueCreate;
+  try {
+    create = await resolveIssueDraft(draft, config, client);
+  } catch (error) {
+    return { success: false, filePath, ...describeFailure(error) };
+  }
+
+  const request = {
+    method: 'POST' as const,
+    path: '/issues.json' as const,
+    body: { issue: create },
+  };
+
+  if (options.dryRun) {
+    return {
+      success: true,
+      filePath,
+      message: `Would create issue "${create.subject}" from ${filePath} (dry run)`,
+      request,
+    };
+  }
+
+  let issue: RedmineIssue;
+  try {
+    issue = await client.createIssue(create);
+  } catch (error) {
+    return { success: false, filePath, request, ...describeFailure(error) };
+  }
+  const issueId = issue.id;
+
+  // From here on the issue exists, so a failure must leave the draft linked to it
+  let draftTarget = resolve(draftPath);
+  let sync: SyncIssueResult;
+  try {
+    const state = await loadSyncState(outputDir);
+    const targetPath = resolve(outputDir, await resolveIssueFilename(issue, config, client, state));
+
+    // Move the draft first so the sync rewrites it in place and keeps its local notes
+    if (!(await pathExists(targetPath))) {
+      await ensureDir(targetPath);
+      await rename(draftPath, targetPath);
+      draftTarget = targetPath;
+    }
+
+    sync = await syncIssue(issueId, config, {
+      client,
+      ...(options.outputDir && { outputDir: options.outputDir }),
+    });
+
+    if (sync.success && draftTarget !== targetPath) {
+      await unlink(draftTarget);
+    }
+  } catch (error) {
+    return {
+      success: false,
+      filePath,
+      issueId,
+      failure: getSyncFailure(issueId, error),
+      message: await linkDraft(
+        draftTarget,
+        draft,
+        issueId,
+        config,
+        `Created issue ${issueId}, but writing its file failed: ${error instanceof Error ? error.message : String(error)}`
+      ),
+      request,
+    };
+  }
+
+  if (!sync.success) {
+    return {
+      success: false,
+      filePath,
+      issueId,
+      failure: sync.failure ?? 'local',
+      message: await linkDraft(
+        draftTarget,
+        draft,
+        issueId,
+        config,
+        `Created issue ${issueId}, but writing its file failed: ${sync.message}`
+      ),
+      request,
+      sync,
+    };
+  }
+
+  return {
+    success: true,
+    filePath,
+    issueId,
+    message: `Created issue ${issueId} from ${filePath}`,
+    request,
+    sync,
+  };
+}
+
+/**
+ * Pushes every draft in a directory, in filename order. Markdown files that already
+ * carry an issue `id` are skipped.
+ */
+export async function pushNewIssues(
+  dir: string,
+  config: RedmineConfig,
+  options: PushNewOptions = {}
+): Promise<PushNewBatchResult> {
+  const client = options.client ?? new RedmineApiClient(config);
+  const results: PushNewResult[] = [];
+  let skipped = 0;
+
+  for (const file of await listMarkdownFiles(dir)) {
+    let frontmatter: Record<string, unknown> | null = null;
+    try {
+      frontmatter = parseMarkdownContent(await readFile(file, 'utf-8')).frontmatter;
+    } catch {
+      // Left to pushNewIssue, which reports the draft as invalid
+    }
+    if (frontmatter && extractIssueIdFromFrontmatter(frontmatter)) {
+      skipped++;
+      continue;
+    }
+    results.push(await pushNewIssue(file, config, { ...options, client }));
+  }
+
+  const failed = results.filter((result) => !result.success).length;
+  return {
+    success: failed === 0,
+    created: results.length - failed,
+    failed,
+    skipped,
+    results,
+  };
+}
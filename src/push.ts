@@ -0,0 +1,365 @@
+import { resolve } from 'node:path';
+import type { RedmineConfig } from './config.js';
+import {
+  RedmineApiClient,
+  describeRequestFailure,
+  type RedmineIssue,
+  type RedmineIssueUpdate,
+} from './api.js';
+import { mapCustomFields, TIME_SPENT_TITLE } from './mappers.js';
+import { restoreAttachmentReferences, type AttachmentLinks } from './attachments.js';
+import { createUnifiedDiff, mergeThreeWay } from './diff.util.js';
+import { readMarkdownFile, extractIssueIdFromFrontmatter, escapeRegExp } from './file.util.js';
+import { syncIssue, type SyncIssueResult } from './sync-issue.js';
+import {
+  loadSyncState,
+  saveSyncState,
+  getStateEntry,
+  setStateEntry,
+  hashContent,
+  hashManagedContent,
+  hashPushableContent,
+  normalizeTimestamp,
+} from './sync-state.js';
+
+export interface PushIssueOptions {
+  /**
+   * How to handle an issue that changed in Redmine since the last sync: `force`
+   * uploads the local version anyway, `merge` combines changes to different lines.
+   * Without a strategy the push is refused.
+   */
+  strategy?: 'force' | 'merge';
+  dryRun?: boolean;
+  outputDir?: string;
+  client?: RedmineApiClient;
+}
+
+export interface PushConflictField {
+  field: 'subject' | 'description';
+  base: string;
+  local: string;
+  remote: string;
+  /**
+   * Unified diffs of each side against the version of the last sync.
+   */
+  localDiff: string;
+  remoteDiff: string;
+}
+
+/**
+ * Three-way report of an issue changed both locally and in Redmine.
+ */
+export interface PushConflict {
+  localUpdatedOn: string;
+  remoteUpdatedOn: string;
+  fields: PushConflictField[];
+  /**
+   * Whether the `merge` strategy can combine both sides.
+   */
+  mergeable: boolean;
+}
+
+export interface PushIssueResult {
+  success: boolean;
+  issueId: number;
+  message: string;
+  action?: 'pushed' | 'unchanged';
+  /**
+   * Why nothing was pushed: an issue that cannot be pushed, a missing local file or
+   * issue, a conflict with remote changes, a change Redmine refused, or Redmine
+   * being unreachable.
+   */
+  failure?: 'invalid' | 'not-found' | 'conflict' | 'rejected' | 'unreachable';
+  request?: {
+    method: 'PUT';
+    path: string;
+    body: { issue: RedmineIssueUpdate };
+  };
+  conflict?: PushConflict;
+  sync?: SyncIssueResult;
+}
+
+interface IssueText {
+  subject: string;
+  description: string;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\r\n/g, '\n').trim();
+}
+
+/**
+ * Cuts the custom field and time sections `mapIssueToContent` appends to the
+ * description.
+ */
+function removeAppendedSections(content: string, titles: string[]): string {
+  const starts = titles
+    .map((title) => content.search(new RegExp(`^## ${escapeRegExp(title)}$`, 'm')))
+    .filter((index) => index !== -1);
+  return (starts.length > 0 ? content.slice(0, Math.min(...starts)) : content).trim();
+}
+
+function getAttachmentLinks(frontmatter: Record<string, unknown>): AttachmentLinks {
+  const links: AttachmentLinks = {};
+  if (Array.isArray(frontmatter.attachments)) {
+    for (const attachment of frontmatter.attachments as Array<Record<string, unknown>>) {
+      if (
+        typeof attachment.id === 'number' &&
+        typeof attachment.filename === 'string' &&
+        typeof attachment.local_path === 'string'
+      ) {
+        links[attachment.id] = { filename: attachment.filename, path: attachment.local_path };
+      }
+    }
+  }
+  return links;
+}
+
+/**
+ * Rebuilds subject and description as they were at `updatedOn` by undoing the
+ * changes recorded in later journals.
+ */
+function getBaseText(issue: RedmineIssue, updatedOn: string): IssueText {
+  const since = new Date(updatedOn).getTime();
+  const base: IssueText = { subject: issue.subject, description: issue.description ?? '' };
+
+  const laterJournals = (issue.journals ?? [])
+    .filter((journal) => new Date(journal.created_on).getTime() > since)
+    .sort((a, b) => b.id - a.id);
+
+  for (const journal of laterJournals) {
+    for (const detail of journal.details ?? []) {
+      if (
+        detail.property === 'attr' &&
+        (detail.name === 'subject' || detail.name === 'description')
+      ) {
+        base[detail.name] = detail.old_value ?? '';
+      }
+    }
+  }
+
+  return { subject: base.subject, description: normalizeText(base.description) };
+}
+
+function buildConflict(
+  base: IssueText,
+  local: IssueText,
+  remote: IssueText,
+  localUpdatedOn: string,
+  remoteUpdatedOn: string,
+  merged: IssueText | null
+): PushConflict {
+  const fields = (['subject', 'description'] as const)
+    .filter((field) => local[field] !== base[field] || remote[field] !== base[field])
+    .map((field) => ({
+      field,
+      base: base[field],
+      local: local[field],
+      remote: remote[field],
+      localDiff: createUnifiedDiff(`${base[field]}\n`, `${local[field]}\n`, {
+        fromFile: `base/${field}`,
+        toFile: `local/${field}`,
+      }),
+      remoteDiff: createUnifiedDiff(`${base[field]}\n`, `${remote[field]}\n`, {
+        fromFile: `base/${field}`,
+        toFile: `remote/${field}`,
+      }),
+    }));
+
+  return { localUpdatedOn, remoteUpdatedOn, fields, mergeable: merged !== null };
+}
+
+function mergeText(base: IssueText, local: IssueText, remote: IssueText): IssueText | null {
+  let subject: string | null = local.subject;
+  if (local.subject === base.subject) {
+    subject = remote.subject;
+  } else if (remote.subject !== base.subject && remote.subject !== local.subject) {
+    subject = null;
+  }
+
+  const description = mergeThreeWay(
+    `${base.description}\n`,
+    `${local.description}\n`,
+    `${remote.description}\n`
+  );
+
+  return subject !== null && description !== null
+    ? { subject, description: normalizeText(description) }
+    : null;
+}
+
+function describeFailure(issueId: number, error: unknown) {
+  return describeRequestFailure(error, {
+    failed: `Failed to push issue ${issueId}`,
+    rejected: `Redmine rejected issue ${issueId}`,
+    issueId,
+  });
+}
+
+/**
+ * Uploads local edits of the subject and description of a synced issue. Edits are
+ * found by comparing against the base hash of the last sync, and are only sent
+ * while the issue's `updated_on` in Redmine still matches the local file, unless a
+ * strategy says otherwise. The file is re-synced afterwards.
+ */
+export async function pushIssue(
+  issueId: number,
+  config: RedmineConfig,
+  options: PushIssueOptions = {}
+): Promise<PushIssueResult> {
+  const client = options.client ?? new RedmineApiClient(config);
+  const outputDir = options.outputDir || config.outputDir;
+  const notesAnchors = config.localNotes.anchors;
+
+  // Textile is converted to Markdown one-way, so uploading would change the markup
+  if (config.textFormatting === 'textile') {
+    return {
+      success: false,
+      issueId,
+      failure: 'invalid',
+      message: 'Pushing needs a Redmine with Markdown or CommonMark text formatting',
+    };
+  }
+
+  const state = await loadSyncState(outputDir);
+  const entry = getStateEntry(state, issueId);
+  if (!entry) {
+    return {
+      success: false,
+      issueId,
+      failure: 'not-found',
+      message: `Issue ${issueId} has not been synced to ${outputDir}`,
+    };
+  }
+
+  const file = await readMarkdownFile(resolve(outputDir, entry.filename), notesAnchors);
+  if (extractIssueIdFromFrontmatter(file.frontmatter) !== issueId) {
+    return {
+      success: false,
+      issueId,
+      failure: 'not-found',
+      message: `${entry.filename} does not contain issue ${issueId}; run a sync first`,
+    };
+  }
+
+  const localSubject = String(file.frontmatter.subject ?? '').trim();
+  if (!localSubject) {
+    return { success: false, issueId, failure: 'invalid', message: 'Subject cannot be empty' };
+  }
+
+  let issue: RedmineIssue;
+  try {
+    issue = (await client.getIssue(issueId, ['journals'])).issue;
+  } catch (error) {
+    return { success: false, issueId, ...describeFailure(issueId, error) };
+  }
+
+  const sectionTitles = [
+    ...mapCustomFields(issue.custom_fields, config.customFields).sections.map(
+      (section) => section.title
+    ),
+    ...config.customFields.sections.filter((ref): ref is string => typeof ref === 'string'),
+    TIME_SPENT_TITLE,
+  ];
+  const localDescription = removeAppendedSections(file.content, sectionTitles);
+  const localUpdatedOn = normalizeTimestamp(file.frontmatter.updated_on);
+  const base = getBaseText(issue, localUpdatedOn);
+  const localHash = hashPushableContent(localSubject, localDescription);
+
+  if (localHash === (entry.baseHash ?? hashPushableContent(base.subject, base.description))) {
+    return {
+      success: true,
+      issueId,
+      action: 'unchanged',
+      message: `No local changes to push for issue ${issueId}`,
+    };
+  }
+
+  const local: IssueText = {
+    subject: localSubject,
+    description: normalizeText(
+      restoreAttachmentReferences(localDescription, getAttachmentLinks(file.frontmatter))
+    ),
+  };
+  const remote: IssueText = {
+    subject: issue.subject,
+    description: normalizeText(issue.description ?? ''),
+  };
+
+  let target = local;
+  const remoteChanged = new Date(issue.updated_on).getTime() !== new Date(localUpdatedOn).getTime();
+
+  if (remoteChanged && options.strategy !== 'force') {
+    const merged = mergeText(base, local, remote);
+    const conflict = buildConflict(base, local, remote, localUpdatedOn, issue.updated_on, merged);
+
+    if (!merged || options.strategy !== 'merge') {
+      return {
+        success: false,
+        issueId,
+        failure: 'conflict',
+        message: merged
+          ? `Issue ${issueId} was changed in Redmine since it was last synced`
+          : `Issue ${issueId} was changed in Redmine since it was last synced, and the changes overlap`,
+        conflict,
+      };
+    }
+    target = merged;
+  }
+
+  const update: RedmineIssueUpdate = {
+    ...(target.subject !== remote.subject && { subject: target.subject }),
+    ...(target.description !== remote.description && { description: target.description }),
+  };
+  const request = {
+    method: 'PUT' as const,
+    path: `/issues/${issueId}.json`,
+    body: { issue: update },
+  };
+  const hasChanges = Object.keys(update).length > 0;
+
+  if (options.dryRun) {
+    return {
+      success: true,
+      issueId,
+      action: hasChanges ? 'pushed' : 'unchanged',
+      message: hasChanges
+        ? `Would push ${Object.keys(update).join(' and ')} of issue ${issueId} (dry run)`
+        : `Redmine already has the local changes of issue ${issueId} (dry run)`,
+      request,
+    };
+  }
+
+  if (hasChanges) {
+    try {
+      await client.updateIssue(issueId, update);
+    } catch (error) {
+      return { success: false, issueId, request, ...describeFailure(issueId, error) };
+    }
+  }
+
+  // The local edits are in Redmine now, so the re-sync may overwrite the file
+  setStateEntry(state, issueId, {
+    ...entry,
+    contentHash: hashContent(file.rawContent),
+    managedHash: hashManagedContent(file.rawContent, notesAnchors),
+    baseHash: localHash,
+  });
+  await saveSyncState(outputDir, state);
+
+  const sync = await syncIssue(issueId, config, {
+    client,
+    ...(options.outputDir && { outputDir: options.outputDir }),
+  });
+
+  return {
+    success: true,
+    issueId,
+    action: hasChanges ? 'pushed' : 'unchanged',
+    message: hasChanges
+      ? `Pushed ${Object.keys(update).join(' and ')} of issue ${issueId}`
+      : `Redmine already has the local changes of issue ${issueId}`,
+    ...(hasChanges && { request }),
+    sync,
+  };
+}
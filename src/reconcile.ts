@@ -0,0 +1,132 @@
+import { rename, unlink } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import PQueue from 'p-queue';
+import { RedmineApiError, type RedmineApiClient } from './api.js';
+import { ensureDir } from './file.util.js';
+import { ARCHIVE_DIRNAME, removeStateEntry, type SyncState } from './sync-state.js';
+
+export type PruneMode = 'archive' | 'delete';
+
+export interface StaleIssue {
+  issueId: number;
+  filename: string;
+  reason: 'deleted' | 'moved' | 'out-of-scope';
+  action: 'kept' | 'archived' | 'deleted';
+}
+
+export interface ReconciliationResult {
+  remoteIssues: number;
+  localIssues: number;
+  stale: StaleIssue[];
+}
+
+export interface ReconcileOptions {
+  prune?: PruneMode;
+  dryRun?: boolean;
+  concurrency?: number;
+}
+
+/**
+ * Finds local issues of the project that are no longer part of the remote scope.
+ * Entries without a recorded project (rebuilt from older files) are left alone,
+ * since they may have been synced from another project.
+ */
+export function findStaleIssueIds(
+  state: SyncState,
+  projectId: number,
+  remoteIds: Set<number>
+): number[] {
+  return Object.entries(state.issues)
+    .filter(([, entry]) => entry.projectId === projectId)
+    .map(([id]) => parseInt(id, 10))
+    .filter((id) => !remoteIds.has(id))
+    .sort((a, b) => a - b);
+}
+
+async function classifyStaleIssue(
+  client: RedmineApiClient,
+  issueId: number,
+  projectId: number
+): Promise<StaleIssue['reason']> {
+  try {
+    const response = await client.getIssue(issueId);
+    return response.issue.project.id === projectId ? 'out-of-scope' : 'moved';
+  } catch (error) {
+    if (error instanceof RedmineApiError && (error.status === 404 || error.status === 403)) {
+      return 'deleted';
+    }
+    throw error;
+  }
+}
+
+async function pruneFile(outputDir: string, filename: string, mode: PruneMode): Promise<void> {
+  const filePath = resolve(outputDir, filename);
+
+  try {
+    if (mode === 'archive') {
+      const archivePath = resolve(outputDir, join(ARCHIVE_DIRNAME, filename));
+      await ensureDir(archivePath);
+      await rename(filePath, archivePath);
+    } else {
+      await unlink(filePath);
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Reconciles the remote issue IDs in scope against the state manifest and, when
+ * pruning, archives or deletes the files of issues that left the scope.
+ */
+export async function reconcileProject(
+  client: RedmineApiClient,
+  state: SyncState,
+  projectId: number,
+  outputDir: string,
+  remoteIds: Set<number>,
+  options: ReconcileOptions = {}
+): Promise<ReconciliationResult> {
+  const staleIds = findStaleIssueIds(state, projectId, remoteIds);
+  const localIssues = Object.values(state.issues).filter(
+    (entry) => entry.projectId === projectId
+  ).length;
+  const queue = new PQueue({ concurrency: options.concurrency ?? 1 });
+
+  const stale = await Promise.all(
+    staleIds.map((issueId) =>
+      queue.add(
+        async (): Promise<StaleIssue> => {
+          const entry = state.issues[issueId.toString()];
+          const filename = entry?.filename ?? '';
+          const reason = await classifyStaleIssue(client, issueId, projectId);
+
+          if (!options.prune) {
+            return { issueId, filename, reason, action: 'kept' };
+          }
+
+          if (!options.dryRun) {
+            await pruneFile(outputDir, filename, options.prune);
+            removeStateEntry(state, issueId);
+          }
+
+          return {
+            issueId,
+            filename,
+            reason,
+            action: options.prune === 'archive' ? 'archived' : 'deleted',
+          };
+        },
+        { throwOnTimeout: true }
+      )
+    )
+  );
+
+  return {
+    remoteIssues: remoteIds.size,
+    localIssues,
+    stale,
+  };
+}
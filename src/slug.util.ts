@@ -32,13 +32,33 @@ export function generateSlug(
   return finalSlug;
 }
 
+/**
+ * Builds the `{parentPath}` directory chain from the ancestors of an issue, ordered
+ * from the root down, e.g. `100-epic/120-story`.
+ */
+export function buildParentPath(
+  ancestors: Array<{ id: number; subject: string }>,
+  config: FilenameConfig['slug']
+): string {
+  return ancestors
+    .map((ancestor) => `${ancestor.id}-${generateSlug(ancestor.subject, config)}`)
+    .join('/');
+}
+
 export function generateFilename(
   issueId: number,
   title: string,
   config: FilenameConfig,
-  existingSlugs: Set<string> = new Set()
+  existingSlugs: Set<string> = new Set(),
+  parentPath = ''
 ): string {
   const slug = generateSlug(title, config.slug, existingSlugs);
 
-  return config.pattern.replace('{issueId}', issueId.toString()).replace('{slug}', slug);
+  return config.pattern
+    .replace('{parentPath}', parentPath)
+    .replace('{issueId}', issueId.toString())
+    .replace('{slug}', slug)
+    .split('/')
+    .filter((segment) => segment !== '')
+    .join('/');
 }
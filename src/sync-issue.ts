@@ -1,25 +1,68 @@
-import { resolve, relative } from 'node:path';
+import { unlink, writeFile } from 'node:fs/promises';
+import { dirname, resolve, relative, sep } from 'node:path';
 import type { RedmineConfig } from './config.js';
-import { RedmineApiClient } from './api.js';
+import {
+  RedmineApiClient,
+  describeRequestFailure,
+  type RedmineIssue,
+  type RequestFailure,
+} from './api.js';
 import {
   mapIssueToFrontmatter,
   mapIssueToContent,
+  mapIssueDescription,
   mapJournalsToComments,
+  COMMENT_SEPARATOR,
+  type MapperOptions,
   extractNewJournals,
   shouldUpdateIssue,
   shouldUpdateComments,
+  getCustomFieldNames,
 } from './mappers.js';
-import { generateFilename } from './slug.util.js';
+import {
+  downloadIssueAttachments,
+  type AttachmentDownloadResult,
+  type AttachmentLinks,
+} from './attachments.js';
+import { buildParentPath, generateFilename } from './slug.util.js';
+import { createUnifiedDiff } from './diff.util.js';
 import {
   readMarkdownFile,
   writeMarkdownFile,
+  buildMarkdownContent,
   extractIssueIdFromFrontmatter,
   extractLastJournalId,
+  type MarkdownData,
 } from './file.util.js';
+import {
+  loadSyncState,
+  saveSyncState,
+  getStateEntry,
+  setStateEntry,
+  hashContent,
+  hashManagedContent,
+  hashPushableContent,
+  hasLocalEdits,
+  normalizeTimestamp,
+  type SyncState,
+} from './sync-state.js';
 
 export interface SyncIssueOptions {
   dryRun?: boolean;
   outputDir?: string;
+  /**
+   * Shared state manifest. When omitted the manifest is loaded from and saved
+   * back to `outputDir` by this call.
+   */
+  state?: SyncState;
+  /**
+   * Shared API client, so batch syncs reuse one connection pool and rate limiter.
+   */
+  client?: RedmineApiClient;
+  /**
+   * Regenerate the comments section from all journals, even if the issue is unchanged.
+   */
+  refreshComments?: boolean;
 }
 
 export interface SyncIssueResult {
@@ -29,31 +72,139 @@ export interface SyncIssueResult {
   filePath: string;
   action: 'created' | 'updated' | 'skipped';
   message: string;
+  /**
+   * Why the sync failed: Redmine refusing or not answering a request, or the local
+   * file system (`local`), e.g. an output directory that cannot be written.
+   */
+  failure?: RequestFailure | 'local';
   changes?: {
     content?: boolean;
     comments?: boolean;
     frontmatter?: boolean;
+    filename?: boolean;
   };
+  attachments?: AttachmentDownloadResult[];
+  /**
+   * The pending file change; only set by dry runs.
+   */
+  preview?: SyncIssuePreview;
+  /**
+   * Set when the file was edited outside its local notes: the edits were either kept
+   * (and the file left as it was) or saved to `conflictPath` before rewriting it.
+   */
+  localEdits?: 'kept' | 'saved';
+  conflictPath?: string;
+}
+
+export interface SyncIssuePreview {
+  /**
+   * SHA-256 of the current file, absent when the file would be created.
+   */
+  beforeHash?: string;
+  afterHash: string;
+  /**
+   * Unified diff from the current file to the markdown a real sync would write.
+   */
+  diff: string;
+}
+
+/**
+ * Classifies an error thrown while syncing an issue. File system errors carry the
+ * path they failed on; everything else came from a request to Redmine.
+ */
+export function getSyncFailure(issueId: number, error: unknown): RequestFailure | 'local' {
+  if (error instanceof Error && 'syscall' in error && 'path' in error) {
+    return 'local';
+  }
+  return describeRequestFailure(error, {
+    failed: `Failed to sync issue ${issueId}`,
+    rejected: `Redmine rejected issue ${issueId}`,
+    issueId,
+  }).failure;
+}
+
+/**
+ * The issue field each `include` value fills in.
+ */
+const INCLUDE_FIELDS: Record<string, keyof RedmineIssue> = {
+  journals: 'journals',
+  relations: 'relations',
+  attachments: 'attachments',
+  watchers: 'watchers',
+  children: 'children',
+  time_entries: 'time_entries',
+};
+
+/**
+ * Returns the requested includes that are not present on an issue, e.g. journals
+ * on an issue that came from the list endpoint. Includes without a known field
+ * always count as missing.
+ */
+export function getMissingIncludes(issue: RedmineIssue, include: string[]): string[] {
+  return include.filter((name) => {
+    const field = INCLUDE_FIELDS[name];
+    return field === undefined || issue[field] === undefined;
+  });
 }
 
+/**
+ * Returns the file an issue is synced to, relative to the output directory. The
+ * manifest knows where the issue lives even after its title changed.
+ */
+export async function resolveIssueFilename(
+  issue: RedmineIssue,
+  config: RedmineConfig,
+  client: RedmineApiClient,
+  state: SyncState
+): Promise<string> {
+  const existingFilename = getStateEntry(state, issue.id)?.filename;
+  if (existingFilename && !config.filename.renameOnTitleChange) {
+    return existingFilename;
+  }
+
+  const parentPath =
+    issue.parent && config.filename.pattern.includes('{parentPath}')
+      ? buildParentPath(await client.getIssueAncestors(issue), config.filename.slug)
+      : '';
+  return generateFilename(issue.id, issue.subject, config.filename, undefined, parentPath);
+}
+
+/**
+ * Syncs one issue to its markdown file. Accepts either an issue ID, which is
+ * fetched from Redmine, or an already-fetched issue; in the latter case the
+ * issue is only fetched again when it changed and lacks requested includes.
+ */
 export async function syncIssue(
-  issueId: number,
+  issueOrId: number | RedmineIssue,
   config: RedmineConfig,
   options: SyncIssueOptions = {}
 ): Promise<SyncIssueResult> {
-  const client = new RedmineApiClient(config);
+  const client = options.client ?? new RedmineApiClient(config);
   const outputDir = options.outputDir || config.outputDir;
+  const issueId = typeof issueOrId === 'number' ? issueOrId : issueOrId.id;
 
   try {
-    const include = config.defaults.include;
-    const response = await client.getIssue(issueId, include);
-    const issue = response.issue;
+    const include =
+      config.attachments.download && !config.defaults.include.includes('attachments')
+        ? [...config.defaults.include, 'attachments']
+        : config.defaults.include;
+    let issue =
+      typeof issueOrId === 'number' ? (await client.getIssue(issueId, include)).issue : issueOrId;
 
-    const filename = generateFilename(issue.id, issue.subject, config.filename);
+    const state = options.state ?? (await loadSyncState(outputDir));
+    const stateEntry = getStateEntry(state, issue.id);
+
+    const existingFilename = stateEntry?.filename;
+    const filename = await resolveIssueFilename(issue, config, client, state);
     const filePath = resolve(outputDir, filename);
     const relativePath = relative(process.cwd(), filePath);
+    const staleFilePath =
+      existingFilename && existingFilename !== filename
+        ? resolve(outputDir, existingFilename)
+        : null;
 
-    const existingFile = await readMarkdownFile(filePath);
+    const notesAnchors = config.localNotes.anchors;
+    const existingFile = await readMarkdownFile(staleFilePath ?? filePath, notesAnchors);
     const existingIssueId = extractIssueIdFromFrontmatter(existingFile.frontmatter);
     const existingLastJournalId = extractLastJournalId(existingFile.frontmatter);
 
@@ -64,39 +215,68 @@ export async function syncIssue(
         filename,
         filePath: relativePath,
         action: 'skipped',
+        failure: 'local',
         message: `File ${filename} contains issue ${existingIssueId}, not ${issue.id}`,
       };
     }
 
     const needsUpdate = shouldUpdateIssue(issue, existingFile.frontmatter);
+    if ((needsUpdate || options.refreshComments) && getMissingIncludes(issue, include).length > 0) {
+      issue = (await client.getIssue(issue.id, include)).issue;
+    }
+
     const needsCommentsUpdate = shouldUpdateComments(
       issue.journals || [],
       existingFile.frontmatter
     );
 
-    if (!needsUpdate && !needsCommentsUpdate) {
-      return {
-        success: true,
-        issueId: issue.id,
-        filename,
-        filePath: relativePath,
-        action: 'skipped',
-        message: `Issue ${issueId} is already up to date`,
-      };
+    // Rebuilding renders the whole section from the full journal list, which picks up
+    // edited notes and changed private flags that appending by journal ID never sees
+    const rebuildComments = options.refreshComments || config.comments.mode === 'rebuild';
+
+    // Journal details refer to statuses, users etc. by ID; only look them up when needed
+    const enumerations =
+      (needsUpdate || needsCommentsUpdate || options.refreshComments) &&
+      issue.journals?.some((journal) => journal.details && journal.details.length > 0)
+        ? await client.getEnumerations(issue.project.id)
+        : undefined;
+
+    // Already downloaded files are only checked by size, so this is cheap for unchanged issues
+    let attachments: AttachmentDownloadResult[] | undefined;
+    if (config.attachments.download && issue.attachments && issue.attachments.length > 0) {
+      attachments = await downloadIssueAttachments(
+        client,
+        issue,
+        outputDir,
+        config.attachments,
+        options.dryRun
+      );
     }
+    const attachmentLinks = attachments && getAttachmentLinks(attachments, outputDir, filePath);
 
-    const frontmatter = mapIssueToFrontmatter(issue);
-    const content = mapIssueToContent(issue);
+    const mapperOptions: MapperOptions = {
+      textFormatting: config.textFormatting,
+      customFields: config.customFields,
+      customFieldNames: getCustomFieldNames(issue.custom_fields, config.customFields),
+      ...(enumerations && { enumerations }),
+      ...(attachmentLinks && { attachmentLinks }),
+    };
 
     let comments: string | undefined;
-    if (needsCommentsUpdate && issue.journals) {
+    if (
+      rebuildComments &&
+      (needsUpdate || needsCommentsUpdate || options.refreshComments) &&
+      issue.journals
+    ) {
+      comments = mapJournalsToComments(issue.journals, config.comments, mapperOptions) || undefined;
+    } else if (needsCommentsUpdate && issue.journals) {
       const newJournals = extractNewJournals(issue.journals, existingLastJournalId);
       if (newJournals.length > 0) {
-        const newComments = mapJournalsToComments(newJournals, config.comments);
-        if (existingFile.comments) {
-          comments = `${existingFile.comments}\n\n---\n\n${newComments}`;
+        const newComments = mapJournalsToComments(newJournals, config.comments, mapperOptions);
+        if (existingFile.comments && newComments) {
+          comments = `${existingFile.comments}\n\n${COMMENT_SEPARATOR}\n\n${newComments}`;
         } else {
-          comments = newComments;
+          comments = existingFile.comments || newComments || undefined;
         }
       } else {
         comments = existingFile.comments || undefined;
@@ -105,37 +285,147 @@ export async function syncIssue(
       comments = existingFile.comments || undefined;
     }
 
+    const commentsChanged = (comments ?? '') !== (existingFile.comments ?? '');
+
+    if (!needsUpdate && !needsCommentsUpdate && !commentsChanged && !staleFilePath) {
+      if (stateEntry && stateEntry.projectId === undefined && !options.dryRun) {
+        // Entries rebuilt from files written before `project_id` was recorded
+        setStateEntry(state, issue.id, { ...stateEntry, projectId: issue.project.id });
+        if (!options.state) {
+          await saveSyncState(outputDir, state);
+        }
+      } else if (!stateEntry && existingIssueId && !options.dryRun) {
+        setStateEntry(state, issue.id, {
+          filename,
+          updated_on: normalizeTimestamp(existingFile.frontmatter.updated_on),
+          ...(existingLastJournalId && { lastJournalId: existingLastJournalId }),
+          contentHash: hashContent(existingFile.rawContent),
+          managedHash: hashManagedContent(existingFile.rawContent, notesAnchors),
+          baseHash: hashPushableContent(issue.subject, mapIssueDescription(issue, mapperOptions)),
+          projectId: issue.project.id,
+        });
+        if (!options.state) {
+          await saveSyncState(outputDir, state);
+        }
+      }
+
+      return {
+        success: true,
+        issueId: issue.id,
+        filename,
+        filePath: relativePath,
+        action: 'skipped',
+        message: `Issue ${issueId} is already up to date`,
+      };
+    }
+
+    const frontmatter = mapIssueToFrontmatter(issue, mapperOptions);
+    const content = mapIssueToContent(issue, mapperOptions);
+
     const changes: SyncIssueResult['changes'] = {};
     if (needsUpdate) {
       changes.frontmatter = true;
       changes.content = true;
     }
-    if (needsCommentsUpdate) {
+    if (needsCommentsUpdate || commentsChanged) {
       changes.comments = true;
     }
+    if (staleFilePath) {
+      changes.filename = true;
+    }
+
+    const markdown: MarkdownData = {
+      frontmatter,
+      content,
+      comments,
+      ...(existingFile.notes !== null && { notes: existingFile.notes }),
+    };
+
+    // Rewriting the file would lose edits made outside the local notes
+    const onLocalEdits = hasLocalEdits(stateEntry, existingFile.rawContent, notesAnchors)
+      ? config.localNotes.onLocalEdits
+      : 'overwrite';
+
+    if (onLocalEdits === 'keep') {
+      if (stateEntry && !stateEntry.localEditsKept && !options.dryRun) {
+        setStateEntry(state, issue.id, { ...stateEntry, localEditsKept: true });
+        if (!options.state) {
+          await saveSyncState(outputDir, state);
+        }
+      }
+      return {
+        success: true,
+        issueId: issue.id,
+        filename,
+        filePath: relativePath,
+        action: 'skipped',
+        message: `${options.dryRun ? 'Would keep' : 'Kept'} local edits in ${filename}; issue ${issueId} was not updated`,
+        localEdits: 'kept',
+        ...(attachments && { attachments }),
+      };
+    }
+
+    const conflictPath =
+      onLocalEdits === 'conflict' ? `${staleFilePath ?? filePath}.conflict` : null;
+    const conflict = conflictPath && {
+      localEdits: 'saved' as const,
+      conflictPath: relative(process.cwd(), conflictPath),
+    };
 
     if (options.dryRun) {
       const action = existingIssueId ? 'updated' : 'created';
+      const after = buildMarkdownContent(markdown, config.comments, notesAnchors);
+      const before = existingFile.rawContent;
+
       return {
         success: true,
         issueId: issue.id,
         filename,
         filePath: relativePath,
         action,
-        message: `Would ${action} issue ${issueId} (dry run)`,
+        message: conflict
+          ? `Would update issue ${issueId} and save local edits to ${conflict.conflictPath} (dry run)`
+          : `Would ${existingIssueId ? 'update' : 'create'} issue ${issueId} (dry run)`,
         changes,
+        ...(attachments && { attachments }),
+        ...conflict,
+        preview: {
+          ...(existingIssueId && { beforeHash: hashContent(before) }),
+          afterHash: hashContent(after),
+          diff: createUnifiedDiff(before, after, {
+            fromFile: existingIssueId ? `a/${existingFilename ?? filename}` : '/dev/null',
+            toFile: `b/${filename}`,
+          }),
+        },
       };
     }
 
-    await writeMarkdownFile(
-      filePath,
-      {
-        frontmatter,
-        content,
-        comments,
-      },
-      config.comments
-    );
+    if (conflictPath) {
+      await writeFile(conflictPath, existingFile.rawContent, 'utf-8');
+    }
+
+    const written = await writeMarkdownFile(filePath, markdown, config.comments, notesAnchors);
+
+    if (staleFilePath) {
+      await unlink(staleFilePath).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      });
+    }
+
+    setStateEntry(state, issue.id, {
+      filename,
+      updated_on: issue.updated_on,
+      ...(frontmatter.lastJournalId && { lastJournalId: frontmatter.lastJournalId }),
+      contentHash: hashContent(written),
+      managedHash: hashManagedContent(written, notesAnchors),
+      baseHash: hashPushableContent(issue.subject, mapIssueDescription(issue, mapperOptions)),
+      projectId: issue.project.id,
+    });
+    if (!options.state) {
+      await saveSyncState(outputDir, state);
+    }
 
     const action = existingIssueId ? 'updated' : 'created';
     return {
@@ -144,8 +434,12 @@ export async function syncIssue(
       filename,
       filePath: relativePath,
       action,
-      message: `Successfully ${action} issue ${issueId}`,
+      message: conflict
+        ? `Successfully ${action} issue ${issueId}; local edits saved to ${conflict.conflictPath}`
+        : `Successfully ${action} issue ${issueId}`,
       changes,
+      ...(attachments && { attachments }),
+      ...conflict,
     };
   } catch (error) {
     return {
@@ -154,11 +448,30 @@ export async function syncIssue(
       filename: '',
       filePath: '',
       action: 'skipped',
+      failure: getSyncFailure(issueId, error),
       message: `Failed to sync issue ${issueId}: ${error instanceof Error ? error.message : String(error)}`,
     };
   }
 }
 
+function getAttachmentLinks(
+  attachments: AttachmentDownloadResult[],
+  outputDir: string,
+  filePath: string
+): AttachmentLinks {
+  const links: AttachmentLinks = {};
+  for (const attachment of attachments) {
+    if (attachment.status !== 'skipped') {
+      const target = resolve(outputDir, attachment.path);
+      links[attachment.id] = {
+        filename: attachment.filename,
+        path: relative(dirname(filePath), target).split(sep).join('/'),
+      };
+    }
+  }
+  return links;
+}
+
 export function extractIssueIdFromUrl(url: string): number | null {
   const match = url.match(/\/issues\/(\d+)(?:\/|$)/);
   if (match) {
@@ -167,3 +480,14 @@ export function extractIssueIdFromUrl(url: string): number | null {
   }
   return null;
 }
+
+/**
+ * Accepts an issue ID, `#123` or an issue URL.
+ */
+export function parseIssueReference(reference: string): number | null {
+  const trimmed = reference.trim();
+  if (/^#?\d+$/.test(trimmed)) {
+    return parseInt(trimmed.replace('#', ''), 10);
+  }
+  return extractIssueIdFromUrl(trimmed);
+}
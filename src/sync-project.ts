@@ -1,19 +1,41 @@
+import PQueue from 'p-queue';
 import type { RedmineConfig } from './config.js';
-import { RedmineApiClient } from './api.js';
-import { syncIssue } from './sync-issue.js';
+import { RedmineApiClient, ISSUE_LIST_INCLUDES } from './api.js';
+import { syncIssue, type SyncIssuePreview, type SyncIssueResult } from './sync-issue.js';
+import { reconcileProject, type PruneMode, type ReconciliationResult } from './reconcile.js';
+import {
+  loadSyncState,
+  saveSyncState,
+  getProjectWatermark,
+  setProjectWatermark,
+  type SyncState,
+} from './sync-state.js';
 
 export interface SyncProjectOptions {
   status?: string;
   updatedSince?: string;
+  /**
+   * Ignore the stored watermark and resync every issue in scope.
+   */
+  full?: boolean;
+  /**
+   * Archive or delete files of issues that left the sync scope.
+   */
+  prune?: PruneMode;
+  refreshComments?: boolean;
   dryRun?: boolean;
   outputDir?: string;
   concurrency?: number;
   pageSize?: number;
+  requestsPerSecond?: number;
   onProgress?: (current: number, total: number) => void;
+  onIssueResult?: (result: SyncIssueResult, processed: number, total: number) => void;
 }
 
 export interface SyncProjectResult {
   success: boolean;
+  mode: 'full' | 'incremental';
+  updatedSince?: string;
   totalIssues: number;
   processed: number;
   created: number;
@@ -24,17 +46,73 @@ export interface SyncProjectResult {
     issueId: number;
     error: string;
   }>;
+  reconciliation?: ReconciliationResult;
+  /**
+   * Pending file changes of a dry run, ordered by issue ID.
+   */
+  previews?: SyncProjectPreview[];
+  /**
+   * Files whose local edits were kept instead of writing a newer version of the
+   * issue, ordered by issue ID.
+   */
+  localEditsKept?: Array<{ issueId: number; filePath: string }>;
+}
+
+export interface SyncProjectPreview extends SyncIssuePreview {
+  issueId: number;
+  filePath: string;
+  action: 'created' | 'updated';
+}
+
+/**
+ * Formats a date the way Redmine's `updated_on` filter accepts timestamps.
+ */
+export function toRedmineTimestamp(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Works out the `updated_on` lower bound for a run: an explicit date wins,
+ * `full` disables the filter, otherwise the stored watermark minus the safety
+ * overlap is used when it was recorded for the same status filter.
+ */
+export function resolveUpdatedSince(
+  state: SyncState,
+  projectId: number,
+  status: string,
+  overlapSeconds: number,
+  options: Pick<SyncProjectOptions, 'updatedSince' | 'full'>
+): string | undefined {
+  if (options.full) {
+    return undefined;
+  }
+
+  if (options.updatedSince) {
+    return options.updatedSince;
+  }
+
+  const watermark = getProjectWatermark(state, projectId);
+  if (!watermark || watermark.status !== status || !watermark.lastUpdatedOn) {
+    return undefined;
+  }
+
+  const since = new Date(new Date(watermark.lastUpdatedOn).getTime() - overlapSeconds * 1000);
+  return isNaN(since.getTime()) ? undefined : toRedmineTimestamp(since);
 }
 
 export async function syncProject(
   config: RedmineConfig,
   options: SyncProjectOptions = {}
 ): Promise<SyncProjectResult> {
-  const client = new RedmineApiClient(config);
   const pageSize = options.pageSize || config.defaults.pageSize;
+  const outputDir = options.outputDir || config.outputDir;
+  const concurrency = options.concurrency || config.defaults.concurrency;
+  const status = options.status || config.defaults.status;
+  const startedAt = new Date().toISOString();
 
   const result: SyncProjectResult = {
     success: true,
+    mode: 'full',
     totalIssues: 0,
     processed: 0,
     created: 0,
@@ -42,29 +120,59 @@ export async function syncProject(
     skipped: 0,
     failed: 0,
     errors: [],
+    ...(options.dryRun && { previews: [] }),
   };
 
   try {
+    const client = new RedmineApiClient(
+      config,
+      options.requestsPerSecond !== undefined
+        ? { requestsPerSecond: options.requestsPerSecond }
+        : {}
+    );
+    const state = await loadSyncState(outputDir);
+    const updatedSince = resolveUpdatedSince(
+      state,
+      config.project.id,
+      status,
+      config.defaults.watermarkOverlapSeconds,
+      options
+    );
+
+    if (updatedSince) {
+      result.mode = 'incremental';
+      result.updatedSince = updatedSince;
+    }
+
     const issues = await client.getIssuesConcurrently(config.project.id, {
-      status: options.status || config.defaults.status,
+      status,
       pageSize,
-      include: config.defaults.include,
-      updatedSince: options.updatedSince,
-      onProgress: options.onProgress,
+      include: config.defaults.include.filter((name) => ISSUE_LIST_INCLUDES.includes(name)),
+      ...(updatedSince && { updatedSince }),
+      ...(options.onProgress && { onProgress: options.onProgress }),
     });
 
-    result.totalIssues = issues.length;
+    // Issues whose local edits were kept are checked on every run until they can be
+    // written, since the watermark moves past their `updated_on`
+    const listedIds = new Set(issues.map((issue) => issue.id));
+    const keptIssueIds = updatedSince
+      ? Object.entries(state.issues)
+          .filter(
+            ([id, entry]) =>
+              entry.localEditsKept &&
+              entry.projectId === config.project.id &&
+              !listedIds.has(Number(id))
+          )
+          .map(([id]) => Number(id))
+      : [];
 
-    if (issues.length === 0) {
-      return result;
-    }
+    result.totalIssues = issues.length + keptIssueIds.length;
 
-    const syncPromises = issues.map(async (issue) => {
-      const syncResult = await syncIssue(issue.id, config, {
-        dryRun: options.dryRun,
-        outputDir: options.outputDir,
-      });
+    // A single bounded queue keeps at most `concurrency` issues in flight. Listed
+    // issues are handed over as-is, so only changed issues are fetched again.
+    const queue = new PQueue({ concurrency });
 
+    const recordResult = (syncResult: SyncIssueResult) => {
       result.processed++;
 
       if (syncResult.success) {
@@ -79,6 +187,20 @@ export async function syncProject(
             result.skipped++;
             break;
         }
+        if (syncResult.localEdits === 'kept') {
+          result.localEditsKept = [
+            ...(result.localEditsKept ?? []),
+            { issueId: syncResult.issueId, filePath: syncResult.filePath },
+          ];
+        }
+        if (syncResult.preview && syncResult.action !== 'skipped') {
+          result.previews?.push({
+            issueId: syncResult.issueId,
+            filePath: syncResult.filePath,
+            action: syncResult.action,
+            ...syncResult.preview,
+          });
+        }
       } else {
         result.failed++;
         result.errors.push({
@@ -87,12 +209,78 @@ export async function syncProject(
         });
       }
 
-      return syncResult;
-    });
+      options.onIssueResult?.(syncResult, result.processed, result.totalIssues);
+    };
 
-    await Promise.all(syncPromises);
+    for (const issue of [...issues, ...keptIssueIds]) {
+      queue.add(async () => {
+        const syncResult = await syncIssue(issue, config, {
+          ...(options.dryRun && { dryRun: true }),
+          ...(options.refreshComments && { refreshComments: true }),
+          outputDir,
+          state,
+          client,
+        });
+        recordResult(syncResult);
+      });
+    }
+
+    await queue.onIdle();
+    result.previews?.sort((a, b) => a.issueId - b.issueId);
+    result.localEditsKept?.sort((a, b) => a.issueId - b.issueId);
 
     result.success = result.failed === 0;
+
+    // Reconciliation needs every remote ID in scope: a full run already has them,
+    // an incremental run only fetches them when pruning was requested
+    if (!updatedSince || options.prune) {
+      const remoteIssues = updatedSince
+        ? await client.getIssuesConcurrently(config.project.id, { status, pageSize })
+        : issues;
+
+      result.reconciliation = await reconcileProject(
+        client,
+        state,
+        config.project.id,
+        outputDir,
+        new Set(remoteIssues.map((issue) => issue.id)),
+        {
+          concurrency,
+          ...(options.prune && { prune: options.prune }),
+          ...(options.dryRun && { dryRun: true }),
+        }
+      );
+    }
+
+    // Only a clean run may move the watermark, otherwise failed issues would be skipped
+    // next time; kept local edits are tracked in the manifest instead. A run from an
+    // explicit date after the watermark never saw the issues updated in between, so it
+    // may not move it either.
+    const previous = getProjectWatermark(state, config.project.id);
+    const previousUpdatedOn = previous?.status === status ? previous.lastUpdatedOn : '';
+    const coversPrevious =
+      !updatedSince ||
+      !options.updatedSince ||
+      (previousUpdatedOn !== '' && new Date(options.updatedSince) <= new Date(previousUpdatedOn));
+
+    if (result.success && coversPrevious) {
+      const lastUpdatedOn = issues.reduce(
+        (latest, issue) =>
+          !latest || new Date(issue.updated_on) > new Date(latest) ? issue.updated_on : latest,
+        previousUpdatedOn
+      );
+
+      setProjectWatermark(state, config.project.id, {
+        status,
+        lastUpdatedOn,
+        lastSuccessfulRunAt: startedAt,
+      });
+    }
+
+    if (!options.dryRun) {
+      await saveSyncState(outputDir, state);
+    }
+
     return result;
   } catch (error) {
     result.success = false;
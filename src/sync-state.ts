@@ -0,0 +1,232 @@
+import { createHash } from 'node:crypto';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import {
+  ensureDir,
+  listMarkdownFiles,
+  readMarkdownFile,
+  extractIssueIdFromFrontmatter,
+  extractLastJournalId,
+  removeLocalNotes,
+  type LocalNotesAnchors,
+} from './file.util.js';
+
+export const STATE_FILENAME = '.redmine-state.json';
+export const STATE_VERSION = 1;
+export const ARCHIVE_DIRNAME = '_archive';
+
+export interface IssueStateEntry {
+  filename: string;
+  updated_on: string;
+  lastJournalId?: number;
+  contentHash: string;
+  /**
+   * Hash of the file without its local notes, see `hashManagedContent`.
+   */
+  managedHash?: string;
+  /**
+   * Hash of the subject and description as last synced, see `hashPushableContent`.
+   */
+  baseHash?: string;
+  projectId?: number;
+  /**
+   * Set while local edits keep a newer version of the issue from being written, so
+   * incremental project syncs check the issue again whatever its `updated_on`.
+   */
+  localEditsKept?: boolean;
+}
+
+export interface ProjectWatermark {
+  status: string;
+  lastUpdatedOn: string;
+  lastSuccessfulRunAt: string;
+}
+
+export interface SyncState {
+  version: number;
+  issues: Record<string, IssueStateEntry>;
+  projects?: Record<string, ProjectWatermark>;
+}
+
+export function createEmptyState(): SyncState {
+  return {
+    version: STATE_VERSION,
+    issues: {},
+  };
+}
+
+export function getStatePath(outputDir: string): string {
+  return join(outputDir, STATE_FILENAME);
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+/**
+ * Hashes the part of a file that syncs own. Local notes are cut out and whitespace
+ * is collapsed, so neither notes nor editor reformatting count as local edits.
+ */
+export function hashManagedContent(content: string, notesAnchors: LocalNotesAnchors): string {
+  return hashContent(removeLocalNotes(content, notesAnchors).replace(/\s+/g, ' ').trim());
+}
+
+/**
+ * Hashes what `redmine push` uploads: the subject and the description as Markdown.
+ * Whitespace is collapsed as in `hashManagedContent`.
+ */
+export function hashPushableContent(subject: string, description: string): string {
+  return hashContent(`${subject.trim()}\n${description.replace(/\s+/g, ' ').trim()}`);
+}
+
+/**
+ * Tells whether a file was edited outside its local notes since a sync last wrote
+ * it. Entries without a managed hash fall back to comparing the whole file.
+ */
+export function hasLocalEdits(
+  entry: IssueStateEntry | undefined,
+  rawContent: string,
+  notesAnchors: LocalNotesAnchors
+): boolean {
+  if (!entry || !rawContent || hashContent(rawContent) === entry.contentHash) {
+    return false;
+  }
+  return (
+    entry.managedHash === undefined ||
+    hashManagedContent(rawContent, notesAnchors) !== entry.managedHash
+  );
+}
+
+export function normalizeTimestamp(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  return '';
+}
+
+/**
+ * Reads the manifest, or returns null when it is missing, malformed or of another
+ * version.
+ */
+async function readSyncState(outputDir: string): Promise<SyncState | null> {
+  try {
+    const content = await readFile(getStatePath(outputDir), 'utf-8');
+    const state = JSON.parse(content) as Partial<SyncState>;
+
+    if (state.version !== STATE_VERSION || typeof state.issues !== 'object' || !state.issues) {
+      return null;
+    }
+
+    return state as SyncState;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof SyntaxError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function loadSyncState(outputDir: string): Promise<SyncState> {
+  return (await readSyncState(outputDir)) ?? rebuildSyncState(outputDir);
+}
+
+export async function saveSyncState(outputDir: string, state: SyncState): Promise<void> {
+  const statePath = getStatePath(outputDir);
+  await ensureDir(statePath);
+  await writeFile(statePath, `${JSON.stringify(state, null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * Rebuilds the manifest from the frontmatter of local files. When the existing
+ * manifest can be read, its project watermarks are kept, and so are the hashes
+ * syncs and pushes compare against for files that are still where it expects them.
+ */
+export async function rebuildSyncState(outputDir: string): Promise<SyncState> {
+  const previous = await readSyncState(outputDir).catch(() => null);
+  const state: SyncState = {
+    ...createEmptyState(),
+    ...(previous?.projects && { projects: previous.projects }),
+  };
+  const files = await listMarkdownFiles(outputDir, [ARCHIVE_DIRNAME]);
+
+  for (const filePath of files) {
+    const parsed = await readMarkdownFile(filePath);
+    const issueId = extractIssueIdFromFrontmatter(parsed.frontmatter);
+
+    if (!issueId) {
+      continue;
+    }
+
+    const entry: IssueStateEntry = {
+      filename: relative(outputDir, filePath).split(sep).join('/'),
+      updated_on: normalizeTimestamp(parsed.frontmatter.updated_on),
+      contentHash: hashContent(parsed.rawContent),
+    };
+
+    const lastJournalId = extractLastJournalId(parsed.frontmatter);
+    if (lastJournalId) {
+      entry.lastJournalId = lastJournalId;
+    }
+
+    const projectId = Number(parsed.frontmatter.project_id);
+    if (Number.isInteger(projectId) && projectId > 0) {
+      entry.projectId = projectId;
+    }
+
+    const previousEntry = previous ? getStateEntry(previous, issueId) : undefined;
+    if (previousEntry?.filename === entry.filename) {
+      if (previousEntry.managedHash !== undefined) {
+        entry.managedHash = previousEntry.managedHash;
+      }
+      if (previousEntry.baseHash !== undefined) {
+        entry.baseHash = previousEntry.baseHash;
+      }
+      if (entry.projectId === undefined && previousEntry.projectId !== undefined) {
+        entry.projectId = previousEntry.projectId;
+      }
+    }
+
+    // When several files claim the same issue, keep the most recently updated one
+    const existing = state.issues[issueId.toString()];
+    if (existing && new Date(existing.updated_on) >= new Date(entry.updated_on)) {
+      continue;
+    }
+
+    state.issues[issueId.toString()] = entry;
+  }
+
+  return state;
+}
+
+export function getStateEntry(state: SyncState, issueId: number): IssueStateEntry | undefined {
+  return state.issues[issueId.toString()];
+}
+
+export function setStateEntry(state: SyncState, issueId: number, entry: IssueStateEntry): void {
+  state.issues[issueId.toString()] = entry;
+}
+
+export function removeStateEntry(state: SyncState, issueId: number): void {
+  delete state.issues[issueId.toString()];
+}
+
+export function getProjectWatermark(
+  state: SyncState,
+  projectId: number
+): ProjectWatermark | undefined {
+  return state.projects?.[projectId.toString()];
+}
+
+export function setProjectWatermark(
+  state: SyncState,
+  projectId: number,
+  watermark: ProjectWatermark
+): void {
+  state.projects = {
+    ...state.projects,
+    [projectId.toString()]: watermark,
+  };
+}
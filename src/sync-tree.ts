@@ -0,0 +1,301 @@
+import PQueue from 'p-queue';
+import type { RedmineConfig } from './config.js';
+import { RedmineApiClient, type RedmineIssue } from './api.js';
+import { getRelationEnd, matchesRelationType } from './mappers.js';
+import { syncIssue, type SyncIssueOptions, type SyncIssueResult } from './sync-issue.js';
+import { loadSyncState, saveSyncState } from './sync-state.js';
+
+export interface SyncIssueTreeOptions
+  extends Pick<SyncIssueOptions, 'dryRun' | 'outputDir' | 'refreshComments'> {
+  /**
+   * Sync all descendants of the issue, level by level.
+   */
+  withChildren?: boolean;
+  /**
+   * Sync the parent chain of the issue up to the root.
+   */
+  withParent?: boolean;
+  onIssueResult?: (result: SyncIssueResult) => void;
+}
+
+export interface SyncIssueTreeResult {
+  success: boolean;
+  rootIssueId: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  issues: SyncIssueResult[];
+  errors: Array<{
+    issueId: number;
+    error: string;
+  }>;
+}
+
+export interface SyncRelatedIssuesOptions
+  extends Pick<SyncIssueOptions, 'dryRun' | 'outputDir' | 'refreshComments'> {
+  /**
+   * How many relation hops to follow from the starting issue.
+   */
+  depth?: number;
+  /**
+   * Relation types to follow, e.g. `blocks` or `relates`. Each type also matches its
+   * inverse (`blocks` follows `blocked` too). Empty follows every relation.
+   */
+  relationTypes?: string[];
+  onIssueResult?: (result: SyncIssueResult) => void;
+}
+
+export interface RelationGraph {
+  nodes: Array<{
+    issueId: number;
+    depth: number;
+    subject?: string;
+    project?: string;
+  }>;
+  edges: Array<{
+    from: number;
+    to: number;
+    type: string;
+  }>;
+}
+
+export interface SyncRelatedIssuesResult extends SyncIssueTreeResult {
+  graph: RelationGraph;
+}
+
+function createTreeResult(rootIssueId: number): SyncIssueTreeResult {
+  return {
+    success: true,
+    rootIssueId,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    issues: [],
+    errors: [],
+  };
+}
+
+function recordTreeResult(result: SyncIssueTreeResult, syncResult: SyncIssueResult): void {
+  result.issues.push(syncResult);
+
+  if (syncResult.success) {
+    switch (syncResult.action) {
+      case 'created':
+        result.created++;
+        break;
+      case 'updated':
+        result.updated++;
+        break;
+      case 'skipped':
+        result.skipped++;
+        break;
+    }
+  } else {
+    result.failed++;
+    result.errors.push({ issueId: syncResult.issueId, error: syncResult.message });
+  }
+}
+
+function createFailedResult(issueId: number, error: unknown): SyncIssueResult {
+  return {
+    success: false,
+    issueId,
+    filename: '',
+    filePath: '',
+    action: 'skipped',
+    message: `Failed to sync issue ${issueId}: ${error instanceof Error ? error.message : String(error)}`,
+  };
+}
+
+/**
+ * Syncs an issue together with its parents and/or children. Every issue is visited
+ * once, so broken hierarchies that loop back on themselves terminate.
+ */
+export async function syncIssueTree(
+  issueId: number,
+  config: RedmineConfig,
+  options: SyncIssueTreeOptions = {}
+): Promise<SyncIssueTreeResult> {
+  const client = new RedmineApiClient(config);
+  const outputDir = options.outputDir || config.outputDir;
+  // Children are always requested so every file records its `children` links
+  const include = [...config.defaults.include.filter((name) => name !== 'children'), 'children'];
+
+  const result = createTreeResult(issueId);
+  const recordResult = (syncResult: SyncIssueResult) => {
+    recordTreeResult(result, syncResult);
+    options.onIssueResult?.(syncResult);
+  };
+  const recordFailure = (failedIssueId: number, error: unknown) =>
+    recordResult(createFailedResult(failedIssueId, error));
+
+  try {
+    const state = await loadSyncState(outputDir);
+    const fetchIssue = async (id: number) => (await client.getIssue(id, include)).issue;
+    const sync = async (issue: RedmineIssue) =>
+      recordResult(
+        await syncIssue(issue, config, {
+          ...(options.dryRun && { dryRun: true }),
+          ...(options.refreshComments && { refreshComments: true }),
+          outputDir,
+          state,
+          client,
+        })
+      );
+
+    const root = await fetchIssue(issueId);
+    const visited = new Set<number>([root.id]);
+
+    if (options.withParent) {
+      // The ancestors come with the tree's includes, so they are synced as fetched
+      for (const ancestor of await client.getIssueAncestors(root, include)) {
+        visited.add(ancestor.id);
+        try {
+          await sync(ancestor);
+        } catch (error) {
+          recordFailure(ancestor.id, error);
+        }
+      }
+    }
+
+    await sync(root);
+
+    if (options.withChildren) {
+      const queue = new PQueue({ concurrency: config.defaults.concurrency });
+
+      const enqueueChildren = (issue: RedmineIssue) => {
+        for (const child of issue.children ?? []) {
+          if (visited.has(child.id)) {
+            continue;
+          }
+          visited.add(child.id);
+
+          queue.add(async () => {
+            try {
+              const childIssue = await fetchIssue(child.id);
+              await sync(childIssue);
+              enqueueChildren(childIssue);
+            } catch (error) {
+              recordFailure(child.id, error);
+            }
+          });
+        }
+      };
+
+      enqueueChildren(root);
+      await queue.onIdle();
+    }
+
+    if (!options.dryRun) {
+      await saveSyncState(outputDir, state);
+    }
+  } catch (error) {
+    recordFailure(issueId, error);
+  }
+
+  result.success = result.failed === 0;
+  return result;
+}
+
+/**
+ * Syncs an issue and every issue reachable through its relations, breadth-first up to
+ * `depth` hops and across projects. Each issue is fetched and synced once.
+ */
+export async function syncRelatedIssues(
+  issueId: number,
+  config: RedmineConfig,
+  options: SyncRelatedIssuesOptions = {}
+): Promise<SyncRelatedIssuesResult> {
+  const client = new RedmineApiClient(config);
+  const outputDir = options.outputDir || config.outputDir;
+  const depth = options.depth ?? 1;
+  const relationTypes = options.relationTypes ?? [];
+  const include = [...config.defaults.include.filter((name) => name !== 'relations'), 'relations'];
+
+  const result: SyncRelatedIssuesResult = {
+    ...createTreeResult(issueId),
+    graph: { nodes: [], edges: [] },
+  };
+  const recordResult = (syncResult: SyncIssueResult) => {
+    recordTreeResult(result, syncResult);
+    options.onIssueResult?.(syncResult);
+  };
+
+  try {
+    const state = await loadSyncState(outputDir);
+    const queue = new PQueue({ concurrency: config.defaults.concurrency });
+    const visited = new Set<number>([issueId]);
+    const edges = new Set<number>();
+
+    // Levels are processed one after another so every issue is reached by a shortest path
+    const visit = async (id: number, level: number, next: number[]) => {
+      let issue: RedmineIssue;
+      try {
+        issue = (await client.getIssue(id, include)).issue;
+      } catch (error) {
+        result.graph.nodes.push({ issueId: id, depth: level });
+        recordResult(createFailedResult(id, error));
+        return;
+      }
+
+      result.graph.nodes.push({
+        issueId: id,
+        depth: level,
+        subject: issue.subject,
+        project: issue.project.name,
+      });
+
+      recordResult(
+        await syncIssue(issue, config, {
+          ...(options.dryRun && { dryRun: true }),
+          ...(options.refreshComments && { refreshComments: true }),
+          outputDir,
+          state,
+          client,
+        })
+      );
+
+      if (level >= depth) {
+        return;
+      }
+
+      for (const relation of issue.relations ?? []) {
+        const end = getRelationEnd(relation, issue.id);
+        if (!matchesRelationType(end.type, relationTypes)) {
+          continue;
+        }
+
+        // Both ends report the same relation, so record each edge once
+        if (!edges.has(relation.id)) {
+          edges.add(relation.id);
+          result.graph.edges.push({ from: issue.id, to: end.issueId, type: end.type });
+        }
+
+        if (!visited.has(end.issueId)) {
+          visited.add(end.issueId);
+          next.push(end.issueId);
+        }
+      }
+    };
+
+    let frontier = [issueId];
+    for (let level = 0; frontier.length > 0; level++) {
+      const next: number[] = [];
+      await Promise.all(frontier.map((id) => queue.add(() => visit(id, level, next))));
+      frontier = next;
+    }
+
+    result.graph.nodes.sort((a, b) => a.depth - b.depth || a.issueId - b.issueId);
+
+    if (!options.dryRun) {
+      await saveSyncState(outputDir, state);
+    }
+  } catch (error) {
+    recordResult(createFailedResult(issueId, error));
+  }
+
+  result.success = result.failed === 0;
+  return result;
+}
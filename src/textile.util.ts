@@ -0,0 +1,206 @@
+import type { TextFormatting } from './config.js';
+
+const CODE_PLACEHOLDER = '\u0000CODE';
+
+function splitTableCells(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/\|$/, '');
+
+  // Drop cell modifiers such as `_.` (header), `<.`, `\2.` or `{color:red}.`
+  return trimmed
+    .split('|')
+    .map((cell) =>
+      cell.replace(/^\s*_?(?:[<>=^~]|\\\d+|\/\d+|\{[^}]*\}|\([^)]*\))*\.\s/, '').trim()
+    );
+}
+
+/**
+ * Converts inline Textile markup (code, links, images, emphasis) to Markdown.
+ */
+export function convertTextileInline(text: string): string {
+  const codeSpans: string[] = [];
+
+  let result = text.replace(/@([^@\n]+)@/g, (_, code: string) => {
+    codeSpans.push(code);
+    return `${CODE_PLACEHOLDER}${codeSpans.length - 1}\u0000`;
+  });
+
+  // Images: !url!, !url(alt)!, !>url!, optionally linked with !url!:link
+  result = result.replace(
+    /!([<>=]?)([^\s!()]+\.[^\s!()]+|[^\s!()]*\/[^\s!()]*)(?:\(([^)]*)\))?!(?::(\S+))?/g,
+    (_, _align: string, src: string, alt: string | undefined, link: string | undefined) => {
+      const image = `![${alt ?? ''}](${src})`;
+      return link ? `[${image}](${link})` : image;
+    }
+  );
+
+  // Links: "text":url and "text (title)":url, keeping trailing punctuation outside
+  result = result.replace(
+    /"([^"\n]+?)(?:\s\(([^)]*)\))?":((?:https?:\/\/|ftp:\/\/|mailto:|\/|#)[^\s<>"]*[^\s<>".,;:!?)])/g,
+    (_, label: string, _title: string | undefined, url: string) => `[${label}](${url})`
+  );
+
+  const boundary = `(^|[\\s(\\[{>"'])`;
+  const closing = `(?=$|[\\s.,;:!?)\\]}<"'])`;
+
+  result = result
+    .replace(
+      new RegExp(`${boundary}\\*\\*([^*\\s](?:[^*]*[^*\\s])?)\\*\\*${closing}`, 'g'),
+      '$1**$2**'
+    )
+    .replace(new RegExp(`${boundary}\\*([^*\\s](?:[^*]*[^*\\s])?)\\*${closing}`, 'g'), '$1**$2**')
+    .replace(new RegExp(`${boundary}__([^_\\s](?:[^_]*[^_\\s])?)__${closing}`, 'g'), '$1_$2_')
+    .replace(new RegExp(`${boundary}-([^-\\s](?:[^-]*[^-\\s])?)-${closing}`, 'g'), '$1~~$2~~')
+    .replace(
+      new RegExp(`${boundary}\\+([^+\\s](?:[^+]*[^+\\s])?)\\+${closing}`, 'g'),
+      '$1<ins>$2</ins>'
+    );
+
+  return result.replace(
+    new RegExp(`${CODE_PLACEHOLDER}(\\d+)\u0000`, 'g'),
+    (_, index: string) => `\`${codeSpans[parseInt(index, 10)]}\``
+  );
+}
+
+/**
+ * Converts Redmine Textile markup to Markdown: headings, block quotes, lists,
+ * tables, `<pre>`/`bc.` code blocks, links, images and inline formatting.
+ */
+export function textileToMarkdown(text: string): string {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const output: string[] = [];
+
+  let inPre = false;
+  let inBlockCode = false;
+  let inTable = false;
+
+  for (const line of lines) {
+    if (inPre) {
+      const endIndex = line.indexOf('</pre>');
+      if (endIndex === -1) {
+        output.push(line);
+        continue;
+      }
+
+      const before = line.substring(0, endIndex).replace(/<\/code>\s*$/, '');
+      if (before.trim()) {
+        output.push(before);
+      }
+      output.push('```');
+      inPre = false;
+
+      const after = line.substring(endIndex + '</pre>'.length).trim();
+      if (after) {
+        output.push(convertTextileInline(after));
+      }
+      continue;
+    }
+
+    if (inBlockCode) {
+      if (line.trim() === '') {
+        output.push('```', '');
+        inBlockCode = false;
+      } else {
+        output.push(line);
+      }
+      continue;
+    }
+
+    const isTableRow = /^\s*\|.*\|\s*$/.test(line);
+    if (!isTableRow) {
+      inTable = false;
+    }
+
+    const preMatch = line.match(/^\s*<pre>\s*(?:<code(?:\s+class="([\w+#-]+)")?>)?(.*)$/);
+    if (preMatch) {
+      output.push(`\`\`\`${preMatch[1] ?? ''}`);
+      const rest = preMatch[2] ?? '';
+      const endIndex = rest.indexOf('</pre>');
+
+      if (endIndex === -1) {
+        if (rest.trim()) {
+          output.push(rest);
+        }
+        inPre = true;
+      } else {
+        const content = rest.substring(0, endIndex).replace(/<\/code>\s*$/, '');
+        if (content.trim()) {
+          output.push(content);
+        }
+        output.push('```');
+      }
+      continue;
+    }
+
+    const blockCodeMatch = line.match(/^bc\.\s(.*)$/);
+    if (blockCodeMatch) {
+      output.push('```', blockCodeMatch[1] ?? '');
+      inBlockCode = true;
+      continue;
+    }
+
+    const headingMatch = line.match(/^h([1-6])(?:[(<>={][^.]*)?\.\s+(.*)$/);
+    if (headingMatch) {
+      const level = parseInt(headingMatch[1] ?? '1', 10);
+      output.push(`${'#'.repeat(level)} ${convertTextileInline(headingMatch[2] ?? '')}`);
+      continue;
+    }
+
+    const quoteMatch = line.match(/^bq\.\s+(.*)$/);
+    if (quoteMatch) {
+      output.push(`> ${convertTextileInline(quoteMatch[1] ?? '')}`);
+      continue;
+    }
+
+    const paragraphMatch = line.match(/^p(?:[(<>={][^.]*)?\.\s+(.*)$/);
+    if (paragraphMatch) {
+      output.push(convertTextileInline(paragraphMatch[1] ?? ''));
+      continue;
+    }
+
+    const bulletMatch = line.match(/^(\*+)\s+(.*)$/);
+    if (bulletMatch) {
+      const depth = (bulletMatch[1] ?? '*').length;
+      output.push(`${'  '.repeat(depth - 1)}- ${convertTextileInline(bulletMatch[2] ?? '')}`);
+      continue;
+    }
+
+    const numberedMatch = line.match(/^(#+)\s+(.*)$/);
+    if (numberedMatch) {
+      const depth = (numberedMatch[1] ?? '#').length;
+      output.push(`${'   '.repeat(depth - 1)}1. ${convertTextileInline(numberedMatch[2] ?? '')}`);
+      continue;
+    }
+
+    if (isTableRow) {
+      const cells = splitTableCells(line);
+      output.push(`| ${cells.map((cell) => convertTextileInline(cell)).join(' | ')} |`);
+
+      // Markdown tables need a header row, so the first row always becomes one
+      if (!inTable) {
+        output.push(`| ${cells.map(() => '---').join(' | ')} |`);
+        inTable = true;
+      }
+      continue;
+    }
+
+    output.push(convertTextileInline(line));
+  }
+
+  if (inPre || inBlockCode) {
+    output.push('```');
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Converts Redmine text in the configured formatting to Markdown.
+ */
+export function convertRedmineText(text: string, formatting: TextFormatting): string {
+  if (formatting === 'textile') {
+    return textileToMarkdown(text);
+  }
+
+  // Markdown and CommonMark instances already store Markdown
+  return text;
+}
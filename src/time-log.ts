@@ -0,0 +1,146 @@
+import type { RedmineConfig } from './config.js';
+import {
+  RedmineApiClient,
+  describeRequestFailure,
+  type RedmineTimeEntry,
+  type RedmineTimeEntryCreate,
+} from './api.js';
+import { resolveEntityId } from './issue-update.js';
+import { syncIssue, type SyncIssueResult } from './sync-issue.js';
+
+export interface LogTimeOptions {
+  /**
+   * Activity name or ID; Redmine's default activity when omitted.
+   */
+  activity?: string;
+  comment?: string;
+  /**
+   * Day the time was spent (`YYYY-MM-DD`); today when omitted.
+   */
+  spentOn?: string;
+  /**
+   * Resolve the activity and build the payload, but send nothing.
+   */
+  dryRun?: boolean;
+  outputDir?: string;
+  client?: RedmineApiClient;
+}
+
+export interface LogTimeResult {
+  success: boolean;
+  issueId: number;
+  message: string;
+  /**
+   * Why no time was logged: bad arguments, a missing issue, an entry Redmine
+   * refused, or Redmine being unreachable.
+   */
+  failure?: 'invalid' | 'not-found' | 'rejected' | 'unreachable';
+  request?: {
+    method: 'POST';
+    path: string;
+    body: { time_entry: RedmineTimeEntryCreate };
+  };
+  timeEntry?: RedmineTimeEntry;
+  sync?: SyncIssueResult;
+}
+
+/**
+ * Today's date in local time as `YYYY-MM-DD`, the day Redmine books time on.
+ */
+export function getToday(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+function describeFailure(issueId: number, error: unknown) {
+  return describeRequestFailure(error, {
+    failed: `Failed to log time on issue ${issueId}`,
+    rejected: `Redmine rejected the time entry for issue ${issueId}`,
+    issueId,
+  });
+}
+
+/**
+ * Creates a time entry on an issue, resolving the activity by name, and re-syncs
+ * the issue so its spent hours and time summary include the new entry.
+ */
+export async function logTime(
+  issueId: number,
+  hours: number,
+  config: RedmineConfig,
+  options: LogTimeOptions = {}
+): Promise<LogTimeResult> {
+  const client = options.client ?? new RedmineApiClient(config);
+
+  if (!Number.isFinite(hours) || hours <= 0) {
+    return {
+      success: false,
+      issueId,
+      failure: 'invalid',
+      message: 'Hours must be a positive number',
+    };
+  }
+  if (options.spentOn !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(options.spentOn)) {
+    return {
+      success: false,
+      issueId,
+      failure: 'invalid',
+      message: `Invalid date "${options.spentOn}", expected YYYY-MM-DD`,
+    };
+  }
+
+  let activityId: number | undefined;
+  if (options.activity) {
+    try {
+      const activities = await client.getTimeEntryActivities();
+      activityId = resolveEntityId(activities, options.activity, 'activity');
+    } catch (error) {
+      return { success: false, issueId, ...describeFailure(issueId, error) };
+    }
+  }
+
+  const timeEntry: RedmineTimeEntryCreate = {
+    issue_id: issueId,
+    hours,
+    ...(activityId !== undefined && { activity_id: activityId }),
+    ...(options.comment && { comments: options.comment }),
+    ...(options.spentOn && { spent_on: options.spentOn }),
+  };
+  const request = {
+    method: 'POST' as const,
+    path: '/time_entries.json',
+    body: { time_entry: timeEntry },
+  };
+
+  if (options.dryRun) {
+    return {
+      success: true,
+      issueId,
+      message: `Would log ${hours} h on issue ${issueId} (dry run)`,
+      request,
+    };
+  }
+
+  let created: RedmineTimeEntry;
+  try {
+    created = await client.createTimeEntry(timeEntry);
+  } catch (error) {
+    return { success: false, issueId, request, ...describeFailure(issueId, error) };
+  }
+
+  const sync = await syncIssue(issueId, config, {
+    client,
+    ...(options.outputDir && { outputDir: options.outputDir }),
+  });
+
+  return {
+    success: true,
+    issueId,
+    message: `Logged ${created.hours} h of ${created.activity.name} on issue ${issueId}`,
+    request,
+    timeEntry: created,
+    sync,
+  };
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  RedmineApiClient,
+  RedmineApiError,
+  InvalidFieldError,
+  describeRequestFailure,
+  getRateLimit,
+} from '../src/api.js';
+import {
+  startFakeRedmine,
+  createIssue,
+  createTestConfig,
+  removeOutputDir,
+} from './fake-redmine.js';
+
+describe('api', () => {
+  describe('getRateLimit', () => {
+    it('should allow whole requests per second interval', () => {
+      expect(getRateLimit(5)).toEqual({ interval: 1000, intervalCap: 5 });
+    });
+
+    it('should stretch the interval for fractional rates', () => {
+      expect(getRateLimit(0.5)).toEqual({ interval: 2000, intervalCap: 1 });
+      expect(getRateLimit(1.5)).toEqual({ interval: 667, intervalCap: 1 });
+    });
+
+    it('should refuse rates that are not positive numbers', () => {
+      expect(() => getRateLimit(0)).toThrow('Invalid rate limit 0');
+      expect(() => getRateLimit(NaN)).toThrow('Invalid rate limit NaN');
+    });
+  });
+
+  describe('describeRequestFailure', () => {
+    const messages = { failed: 'Failed to push issue 5', rejected: 'Redmine rejected issue 5' };
+
+    it('should classify errors by their cause', () => {
+      expect(describeRequestFailure(new InvalidFieldError('Bad value'), messages)).toEqual({
+        failure: 'invalid',
+        message: 'Bad value',
+      });
+      expect(describeRequestFailure(new Error('ECONNREFUSED'), messages)).toEqual({
+        failure: 'unreachable',
+        message: 'Failed to push issue 5: ECONNREFUSED',
+      });
+      expect(describeRequestFailure(new RedmineApiError('Blank', 422), messages)).toEqual({
+        failure: 'rejected',
+        message: 'Redmine rejected issue 5: Blank',
+      });
+      expect(describeRequestFailure(new RedmineApiError('Forbidden', 403), messages)).toEqual({
+        failure: 'rejected',
+        message: 'Failed to push issue 5: Forbidden',
+      });
+    });
+
+    it('should only report a missing issue when the request was about one', () => {
+      const notFound = new RedmineApiError('Not found', 404);
+
+      expect(describeRequestFailure(notFound, { ...messages, issueId: 5 })).toEqual({
+        failure: 'not-found',
+        message: 'Issue 5 not found',
+      });
+      expect(describeRequestFailure(notFound, messages).failure).toBe('rejected');
+    });
+  });
+
+  describe('RedmineApiClient', () => {
+    let server: Server | undefined;
+
+    afterEach(async () => {
+      await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+      server = undefined;
+    });
+
+    it('should space requests to the configured rate', async () => {
+      const fake = await startFakeRedmine([createIssue({ id: 1 })]);
+      const config = await createTestConfig(fake.baseUrl);
+      const client = new RedmineApiClient(config, { requestsPerSecond: 2 });
+
+      const startedAt = Date.now();
+      await Promise.all([1, 2, 3].map(() => client.getIssue(1)));
+
+      // Two requests fit the first second, the third waits for the next one
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(900);
+      await fake.close();
+      await removeOutputDir(config);
+    });
+
+    it('should leave out forbidden lookups but not cache other failures', async () => {
+      const fake = await startFakeRedmine();
+      const lookups: Record<string, { status: number; body?: unknown }> = {
+        '/issue_statuses.json': { status: 500 },
+        '/trackers.json': { status: 403 },
+        '/enumerations/issue_priorities.json': { status: 200, body: { issue_priorities: [] } },
+        '/projects/1/memberships.json': { status: 200, body: { memberships: [], total_count: 0 } },
+        '/projects/1/versions.json': { status: 200, body: { versions: [] } },
+        '/projects/1/issue_categories.json': { status: 200, body: { issue_categories: [] } },
+      };
+      fake.routes.push((request, url) => lookups[url.pathname]);
+      const config = await createTestConfig(fake.baseUrl);
+      const client = new RedmineApiClient(config);
+
+      await expect(client.getEnumerations(1)).rejects.toThrow('HTTP 500');
+
+      lookups['/issue_statuses.json'] = {
+        status: 200,
+        body: { issue_statuses: [{ id: 1, name: 'New' }] },
+      };
+      const enumerations = await client.getEnumerations(1);
+      expect(enumerations.statuses).toEqual([{ id: 1, name: 'New' }]);
+      expect(enumerations.trackers).toEqual([]);
+      await fake.close();
+      await removeOutputDir(config);
+    });
+
+    it('should fetch a parent again after a failed attempt', async () => {
+      const child = createIssue({ id: 2, parent: { id: 1 } });
+      const fake = await startFakeRedmine([createIssue({ id: 1 }), child]);
+      let failParent = true;
+      fake.routes.push((request, url) =>
+        url.pathname === '/issues/1.json' && failParent ? { status: 503 } : undefined
+      );
+      const config = await createTestConfig(fake.baseUrl);
+      const client = new RedmineApiClient(config);
+
+      await expect(client.getIssueAncestors(child)).rejects.toThrow('HTTP 503');
+
+      failParent = false;
+      expect((await client.getIssueAncestors(child)).map((issue) => issue.id)).toEqual([1]);
+      await fake.close();
+      await removeOutputDir(config);
+    });
+
+    it('should keep at most `concurrency` list pages in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      server = createServer((req, res) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        const offset = Number(
+          new URL(req.url ?? '/', 'http://localhost').searchParams.get('offset')
+        );
+        setTimeout(() => {
+          inFlight--;
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(
+            JSON.stringify({ issues: [createIssue({ id: offset + 1 })], total_count: 6, offset })
+          );
+        }, 20);
+      });
+      await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve));
+
+      const config = await createTestConfig(
+        `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      );
+      config.defaults.concurrency = 2;
+
+      const issues = await new RedmineApiClient(config).getIssuesConcurrently(1, { pageSize: 1 });
+
+      expect(issues.map((issue) => issue.id)).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(maxInFlight).toBe(2);
+      await removeOutputDir(config);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAttachmentPath,
+  matchesContentType,
+  rewriteAttachmentReferences,
+  restoreAttachmentReferences,
+  type AttachmentLinks,
+} from '../src/attachments.js';
+import type { AttachmentsConfig } from '../src/config.js';
+
+describe('attachments', () => {
+  const config: AttachmentsConfig = {
+    download: true,
+    dir: 'attachments',
+    maxSizeBytes: 1024,
+    contentTypes: [],
+  };
+
+  describe('getAttachmentPath', () => {
+    it('should prefix the filename with the attachment id', () => {
+      expect(getAttachmentPath(config, 123, { id: 7, filename: 'screen shot.png' })).toBe(
+        'attachments/123/7-screen shot.png'
+      );
+    });
+
+    it('should replace path separators in filenames', () => {
+      expect(getAttachmentPath(config, 1, { id: 2, filename: '../etc/passwd' })).toBe(
+        'attachments/1/2-.._etc_passwd'
+      );
+    });
+  });
+
+  describe('matchesContentType', () => {
+    it('should allow everything without a list', () => {
+      expect(matchesContentType('application/zip', [])).toBe(true);
+    });
+
+    it('should support wildcards', () => {
+      expect(matchesContentType('image/png', ['image/*'])).toBe(true);
+      expect(matchesContentType('application/pdf', ['image/*', 'text/plain'])).toBe(false);
+      expect(matchesContentType('Text/Plain', ['text/plain'])).toBe(true);
+    });
+  });
+
+  describe('rewriteAttachmentReferences', () => {
+    const links: AttachmentLinks = {
+      7: { filename: 'screen.png', path: 'attachments/123/7-screen.png' },
+      8: { filename: 'log file.txt', path: 'attachments/123/8-log file.txt' },
+    };
+
+    it('should rewrite inline images', () => {
+      expect(rewriteAttachmentReferences('See !screen.png! here', links)).toBe(
+        'See ![screen.png](attachments/123/7-screen.png) here'
+      );
+      expect(rewriteAttachmentReferences('![Alt](screen.png)', links)).toBe(
+        '![Alt](attachments/123/7-screen.png)'
+      );
+    });
+
+    it('should rewrite attachment links', () => {
+      expect(rewriteAttachmentReferences('Check attachment:"log file.txt".', links)).toBe(
+        'Check [log file.txt](attachments/123/8-log%20file.txt).'
+      );
+      expect(rewriteAttachmentReferences('attachment:screen.png', links)).toBe(
+        '[screen.png](attachments/123/7-screen.png)'
+      );
+    });
+
+    it('should leave unknown references alone', () => {
+      expect(rewriteAttachmentReferences('!other.png! attachment:other.png', links)).toBe(
+        '!other.png! attachment:other.png'
+      );
+    });
+  });
+
+  describe('duplicate filenames', () => {
+    const links: AttachmentLinks = {
+      9: { filename: 'screen.png', path: 'attachments/123/9-screen.png' },
+      7: { filename: 'screen.png', path: 'attachments/123/7-screen.png' },
+    };
+
+    it('should point a shared name at the newest attachment', () => {
+      expect(rewriteAttachmentReferences('!screen.png! attachment:screen.png', links)).toBe(
+        '![screen.png](attachments/123/9-screen.png) [screen.png](attachments/123/9-screen.png)'
+      );
+    });
+
+    it('should restore links to either attachment', () => {
+      const text =
+        '![screen.png](attachments/123/7-screen.png) [screen.png](attachments/123/9-screen.png)';
+      expect(restoreAttachmentReferences(text, links)).toBe(
+        '![](screen.png) attachment:"screen.png"'
+      );
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { addComment } from '../src/comment.js';
+import type { RedmineConfig } from '../src/config.js';
+import {
+  startFakeRedmine,
+  createIssue,
+  createTestConfig,
+  removeOutputDir,
+  type FakeRedmine,
+} from './fake-redmine.js';
+
+describe('addComment', () => {
+  let fake: FakeRedmine;
+  let config: RedmineConfig;
+
+  beforeEach(async () => {
+    fake = await startFakeRedmine([createIssue({ id: 5, subject: 'Export' })]);
+    config = await createTestConfig(fake.baseUrl);
+  });
+
+  afterEach(async () => {
+    await fake.close();
+    await removeOutputDir(config);
+  });
+
+  it('should add the note and re-sync the issue', async () => {
+    const result = await addComment(5, 'Fixed in abc123', config, { privateNotes: true });
+
+    expect(result.success).toBe(true);
+    expect(fake.requests).toContainEqual({
+      method: 'PUT',
+      path: '/issues/5.json',
+      body: { issue: { notes: 'Fixed in abc123', private_notes: true } },
+    });
+    expect(result.sync?.action).toBe('created');
+
+    const file = await readFile(join(config.outputDir, '5-export.md'), 'utf-8');
+    expect(file).toContain('lastJournalId: 1');
+    expect(file).toContain('Fixed in abc123');
+  });
+
+  it('should only build the payload in a dry run', async () => {
+    const result = await addComment(5, 'Draft', config, { dryRun: true });
+
+    expect(result.request).toEqual({
+      method: 'PUT',
+      path: '/issues/5.json',
+      body: { issue: { notes: 'Draft' } },
+    });
+    expect(result.sync).toBeUndefined();
+    expect(fake.requests).toEqual([]);
+  });
+
+  it('should classify a failed request', async () => {
+    const result = await addComment(404, 'Hello', config);
+
+    expect(result).toMatchObject({
+      success: false,
+      failure: 'not-found',
+      message: 'Issue 404 not found',
+    });
+  });
+});
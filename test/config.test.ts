@@ -99,5 +99,6 @@ describe('config validation', () => {
     expect(validated.defaults.status).toBe('*');
     expect(validated.defaults.pageSize).toBe(100);
     expect(validated.filename.pattern).toBe('{issueId}-{slug}.md');
+    expect(validated.textFormatting).toBe('markdown');
   });
 });
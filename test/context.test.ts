@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateTokens,
+  fitContextPack,
+  renderContextMarkdown,
+  type ContextPack,
+} from '../src/context.js';
+
+describe('context', () => {
+  const pack: ContextPack = {
+    issue: {
+      id: 123,
+      subject: 'Fix login',
+      tracker: 'Bug',
+      status: 'New',
+      project: 'Web',
+      description: 'Users cannot log in. '.repeat(20),
+      url: 'https://redmine.example.com/issues/123',
+      priority: 'High',
+      author: 'Alice',
+      created_on: '2023-01-01T10:00:00Z',
+      updated_on: '2023-01-02T10:00:00Z',
+    },
+    parent: { id: 100, subject: 'Auth epic', description: 'Epic description' },
+    related: [
+      {
+        id: 812,
+        subject: 'Session store',
+        relation: 'blocked',
+        description: 'Details. '.repeat(20),
+      },
+      { id: 900, subject: 'Old login page', relation: 'relates', description: 'More. '.repeat(20) },
+    ],
+    children: [{ id: 130, subject: 'Add test' }],
+    comments: [1, 2, 3].map((index) => ({
+      author: 'Bob',
+      created_on: `2023-01-0${index}T10:00:00Z`,
+      notes: `Comment ${index} `.repeat(20),
+    })),
+    attachments: [{ filename: 'trace.log', filesize: 2048, content_type: 'text/plain' }],
+    omitted: { comments: 0, related: 0, children: 0, attachments: 0 },
+    estimatedTokens: 0,
+  };
+
+  it('should estimate about four characters per token', () => {
+    expect(estimateTokens('12345678')).toBe(2);
+    expect(estimateTokens('123456789')).toBe(3);
+  });
+
+  it('should render the issue before its comments and relations', () => {
+    const markdown = renderContextMarkdown(pack);
+
+    expect(markdown.startsWith('# #123 Fix login')).toBe(true);
+    expect(markdown.indexOf('## Recent Comments')).toBeLessThan(markdown.indexOf('## Parent'));
+    expect(markdown).toContain('### blocked #812 Session store');
+    expect(markdown).toContain('- trace.log (text/plain, 2048 bytes)');
+  });
+
+  it('should leave a pack that fits untouched', () => {
+    const fitted = fitContextPack(pack, 100000);
+
+    expect(fitted.comments).toHaveLength(3);
+    expect(fitted.related[0]?.description).toBeDefined();
+    expect(fitted.estimatedTokens).toBe(estimateTokens(renderContextMarkdown(pack)));
+  });
+
+  it('should drop relation details and old comments first', () => {
+    const full = estimateTokens(renderContextMarkdown(pack));
+    const fitted = fitContextPack(pack, full - 120);
+
+    expect(fitted.estimatedTokens).toBeLessThanOrEqual(full - 120);
+    expect(fitted.related.every((related) => related.description === undefined)).toBe(true);
+    expect(fitted.comments.length).toBeGreaterThan(0);
+    expect(fitted.issue.description).toBe(pack.issue.description);
+    expect(pack.related[0]?.description).toBeDefined();
+  });
+
+  it('should report what was omitted', () => {
+    const fitted = fitContextPack(pack, 150);
+    const markdown = renderContextMarkdown(fitted);
+
+    expect(fitted.omitted.comments).toBe(3);
+    expect(markdown).toContain('_3 older comments omitted to fit the token budget._');
+    expect(fitted.estimatedTokens).toBeLessThanOrEqual(150);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff, mergeThreeWay } from '../src/diff.util.js';
+
+describe('diff.util', () => {
+  describe('createUnifiedDiff', () => {
+    const labels = { fromFile: 'a/1-issue.md', toFile: 'b/1-issue.md' };
+
+    it('should return an empty string for identical texts', () => {
+      expect(createUnifiedDiff('same\n', 'same\n', labels)).toBe('');
+    });
+
+    it('should render changed lines with context', () => {
+      const before = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', ''].join('\n');
+      const after = before.replace('four', 'FOUR');
+
+      expect(createUnifiedDiff(before, after, labels)).toBe(
+        [
+          '--- a/1-issue.md',
+          '+++ b/1-issue.md',
+          '@@ -1,7 +1,7 @@',
+          ' one',
+          ' two',
+          ' three',
+          '-four',
+          '+FOUR',
+          ' five',
+          ' six',
+          ' seven',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should split distant changes into separate hunks', () => {
+      const before =
+        Array.from({ length: 20 }, (_, index) => `line ${index + 1}`).join('\n') + '\n';
+      const after = before.replace('line 2\n', '').replace('line 18\n', 'line 18\nadded\n');
+
+      const diff = createUnifiedDiff(before, after, { ...labels, context: 1 });
+
+      expect(diff.match(/^@@ .* @@$/gm)).toEqual(['@@ -1,3 +1,2 @@', '@@ -18,2 +17,3 @@']);
+    });
+
+    it('should diff a new file against /dev/null', () => {
+      const diff = createUnifiedDiff('', 'title\nbody\n', { ...labels, fromFile: '/dev/null' });
+
+      expect(diff).toBe('--- /dev/null\n+++ b/1-issue.md\n@@ -0,0 +1,2 @@\n+title\n+body\n');
+    });
+
+    it('should mark a missing newline at the end of the file', () => {
+      const diff = createUnifiedDiff('a\nb\n', 'a\nb', labels);
+
+      expect(diff).toContain('-b\n+b\n\\ No newline at end of file\n');
+    });
+
+    it('should find a minimal diff between interleaved changes', () => {
+      const diff = createUnifiedDiff('a\nb\nc\na\nb\nb\na\n', 'c\nb\na\nb\na\nc\n', labels);
+
+      // Myers' example: the shortest edit script has 5 changes
+      expect(diff.split('\n').filter((line) => /^[+-][^+-]/.test(line))).toHaveLength(5);
+      const after = diff
+        .split('\n')
+        .slice(3)
+        .filter((line) => line.startsWith(' ') || line.startsWith('+'))
+        .map((line) => `${line.slice(1)}\n`)
+        .join('');
+      expect(after).toBe('c\nb\na\nb\na\nc\n');
+    });
+
+    it('should diff large files that share no lines', () => {
+      const file = (name: string) =>
+        Array.from({ length: 5000 }, (_, index) => `${name} ${index}\n`).join('');
+
+      const added = createUnifiedDiff('', file('new'), { ...labels, fromFile: '/dev/null' });
+      expect(added.split('\n').filter((line) => line.startsWith('+'))).toHaveLength(5001);
+
+      const replaced = createUnifiedDiff(file('old'), file('new'), labels);
+      expect(replaced.match(/^@@ .* @@$/gm)).toEqual(['@@ -1,5000 +1,5000 @@']);
+      expect(replaced.indexOf('+new 0\n')).toBeGreaterThan(replaced.indexOf('-old 4999\n'));
+    });
+  });
+
+  describe('mergeThreeWay', () => {
+    const lines = (...items: string[]) => items.map((item) => `${item}\n`).join('');
+    const base = lines('one', 'two', 'three', 'four', 'five');
+
+    it('should combine changes to different lines', () => {
+      expect(
+        mergeThreeWay(
+          base,
+          lines('ONE', 'two', 'three', 'four', 'five'),
+          lines('one', 'two', 'three', 'four', 'five', 'six')
+        )
+      ).toBe(lines('ONE', 'two', 'three', 'four', 'five', 'six'));
+    });
+
+    it('should accept the same change on both sides', () => {
+      const changed = lines('one', 'TWO', 'three', 'four', 'five');
+      expect(mergeThreeWay(base, changed, changed)).toBe(changed);
+    });
+
+    it('should refuse overlapping and adjacent changes', () => {
+      const ours = lines('one', 'TWO', 'three', 'four', 'five');
+      expect(mergeThreeWay(base, ours, lines('one', 'two!', 'three', 'four', 'five'))).toBeNull();
+      expect(mergeThreeWay(base, ours, lines('one', 'two', 'THREE', 'four', 'five'))).toBeNull();
+    });
+  });
+});
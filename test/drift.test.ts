@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { checkDrift } from '../src/drift.js';
+import { syncIssue } from '../src/sync-issue.js';
+import type { RedmineConfig } from '../src/config.js';
+import type { RedmineIssue } from '../src/api.js';
+import {
+  startFakeRedmine,
+  createIssue,
+  createTestConfig,
+  removeOutputDir,
+  type FakeRedmine,
+} from './fake-redmine.js';
+
+describe('checkDrift', () => {
+  let fake: FakeRedmine;
+  let config: RedmineConfig;
+  let first: RedmineIssue;
+  let second: RedmineIssue;
+
+  beforeEach(async () => {
+    first = createIssue({ id: 1, subject: 'First' });
+    second = createIssue({ id: 2, subject: 'Second' });
+    fake = await startFakeRedmine([first, second, createIssue({ id: 3, subject: 'Third' })]);
+    config = await createTestConfig(fake.baseUrl);
+
+    for (const issue of fake.issues) {
+      await syncIssue(issue.id, config);
+    }
+  });
+
+  afterEach(async () => {
+    await fake.close();
+    await removeOutputDir(config);
+  });
+
+  it('reports a freshly synced folder as in sync', async () => {
+    const report = await checkDrift(config);
+
+    expect(report.success).toBe(true);
+    expect(report.inSync).toBe(true);
+    expect(report.remoteIssues).toBe(3);
+    expect(report.localIssues).toBe(3);
+  });
+
+  it('reports new, updated, commented, removed and hand-edited issues', async () => {
+    first.updated_on = '2024-02-01T10:00:00Z';
+    second.updated_on = '2024-02-01T10:00:00Z';
+    second.journals = [
+      {
+        id: 10,
+        user: { id: 2, name: 'Bob' },
+        notes: 'Any news?',
+        created_on: '2024-02-01T10:00:00Z',
+        details: [],
+      },
+    ];
+    fake.issues.splice(2, 1);
+    fake.issues.push(createIssue({ id: 4, subject: 'Fourth' }));
+    await appendFile(join(config.outputDir, '1-first.md'), '\nLocal note\n');
+
+    const report = await checkDrift(config);
+
+    expect(report.inSync).toBe(false);
+    expect(report.newRemote.map((entry) => entry.issueId)).toEqual([4]);
+    expect(report.updated.map((entry) => entry.issueId)).toEqual([1, 2]);
+    expect(report.updated[0]).toMatchObject({
+      localUpdatedOn: '2024-01-02T10:00:00Z',
+      remoteUpdatedOn: '2024-02-01T10:00:00Z',
+    });
+    expect(report.newComments).toEqual([{ issueId: 2, subject: 'Second', newComments: 1 }]);
+    expect(report.localOnly).toEqual([{ issueId: 3, filename: '3-third.md' }]);
+    expect(report.handEdited).toEqual([{ issueId: 1, filename: '1-first.md' }]);
+  });
+
+  it('skips the per-issue journal fetch without checkComments', async () => {
+    first.updated_on = '2024-02-01T10:00:00Z';
+    fake.requests.length = 0;
+
+    const report = await checkDrift(config, { checkComments: false });
+
+    expect(report.updated).toHaveLength(1);
+    expect(report.newComments).toEqual([]);
+    expect(fake.requests.every((request) => request.path.startsWith('/issues.json'))).toBe(true);
+  });
+
+  it('fails when Redmine is unreachable', async () => {
+    await fake.close();
+    fake.close = async () => undefined;
+
+    const report = await checkDrift(config);
+
+    expect(report.success).toBe(false);
+    expect(report.inSync).toBe(false);
+    expect(report.message).toContain('Failed to check drift');
+  });
+});
@@ -0,0 +1,222 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AddressInfo } from 'node:net';
+import type { RedmineIssue, RedmineIssueCreate, RedmineIssueUpdate } from '../src/api.js';
+import { validateConfig, type RedmineConfig } from '../src/config.js';
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export type RouteHandler = (
+  request: RecordedRequest,
+  url: URL
+) => { status: number; body?: unknown } | undefined;
+
+export interface FakeRedmine {
+  baseUrl: string;
+  issues: RedmineIssue[];
+  requests: RecordedRequest[];
+  /**
+   * Extra routes consulted before the built-in issue endpoints.
+   */
+  routes: RouteHandler[];
+  close: () => Promise<void>;
+}
+
+export function createIssue(overrides: Partial<RedmineIssue> & { id: number }): RedmineIssue {
+  return {
+    subject: `Issue ${overrides.id}`,
+    description: '',
+    status: { id: 1, name: 'New' },
+    priority: { id: 2, name: 'Normal' },
+    author: { id: 1, name: 'Alice' },
+    created_on: '2024-01-01T10:00:00Z',
+    updated_on: '2024-01-02T10:00:00Z',
+    project: { id: 1, name: 'Web' },
+    tracker: { id: 1, name: 'Bug' },
+    journals: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Applies a PUT body the way Redmine does for the fields tests rely on: notes
+ * become a new journal and every change bumps `updated_on`.
+ */
+function applyIssueUpdate(issue: RedmineIssue, update: RedmineIssueUpdate | undefined): void {
+  if (!update) {
+    return;
+  }
+
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  if (update.notes) {
+    const journals = issue.journals ?? [];
+    issue.journals = [
+      ...journals,
+      {
+        id: Math.max(0, ...journals.map((journal) => journal.id)) + 1,
+        user: { id: 1, name: 'Alice' },
+        notes: update.notes,
+        private_notes: update.private_notes ?? false,
+        created_on: now,
+        details: [],
+      },
+    ];
+  }
+  if (update.status_id !== undefined) {
+    issue.status = { id: update.status_id, name: `Status ${update.status_id}` };
+  }
+  if (update.subject !== undefined) {
+    issue.subject = update.subject;
+  }
+  if (update.description !== undefined) {
+    issue.description = update.description;
+  }
+  issue.updated_on = now;
+}
+
+function handleIssueRoutes(fake: FakeRedmine, request: RecordedRequest, url: URL) {
+  if (url.pathname === '/issues.json' && request.method === 'GET') {
+    const projectId = url.searchParams.get('project_id');
+    const offset = parseInt(url.searchParams.get('offset') ?? '0', 10);
+    const limit = parseInt(url.searchParams.get('limit') ?? '25', 10);
+    const inProject = fake.issues.filter((issue) => String(issue.project.id) === projectId);
+    // The list endpoint never embeds journals or children
+    const issues = inProject
+      .slice(offset, offset + limit)
+      .map((issue) => ({ ...issue, journals: undefined, children: undefined }));
+    return { status: 200, body: { issues, total_count: inProject.length, offset, limit } };
+  }
+
+  if (url.pathname === '/issues.json' && request.method === 'POST') {
+    const create = (request.body as { issue?: RedmineIssueCreate } | undefined)?.issue;
+    if (!create?.subject) {
+      return { status: 422, body: { errors: ['Subject cannot be blank'] } };
+    }
+    const issue = createIssue({
+      id: Math.max(0, ...fake.issues.map((candidate) => candidate.id)) + 1,
+      subject: create.subject,
+      description: create.description ?? '',
+      project: { id: create.project_id, name: 'Web' },
+      ...(create.tracker_id && {
+        tracker: { id: create.tracker_id, name: `Tracker ${create.tracker_id}` },
+      }),
+      ...(create.parent_issue_id && { parent: { id: create.parent_issue_id } }),
+      updated_on: new Date().toISOString().replace(/\.\d{3}Z$/, 'Z'),
+    });
+    fake.issues.push(issue);
+    return { status: 201, body: { issue } };
+  }
+
+  const match = url.pathname.match(/^\/issues\/(\d+)\.json$/);
+  if (match) {
+    const issue = fake.issues.find((candidate) => String(candidate.id) === match[1]);
+    if (!issue) {
+      return { status: 404, body: { errors: ['Not found'] } };
+    }
+    if (request.method === 'PUT') {
+      applyIssueUpdate(issue, (request.body as { issue?: RedmineIssueUpdate } | undefined)?.issue);
+      return { status: 204 };
+    }
+    return { status: 200, body: { issue } };
+  }
+
+  return undefined;
+}
+
+/**
+ * Starts an in-process HTTP server that answers the Redmine issue endpoints from
+ * `issues`, including issue creation, and records every request.
+ */
+export async function startFakeRedmine(issues: RedmineIssue[] = []): Promise<FakeRedmine> {
+  const fake: FakeRedmine = {
+    baseUrl: '',
+    issues,
+    requests: [],
+    routes: [],
+    close: async () => undefined,
+  };
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const request: RecordedRequest = {
+        method: req.method ?? 'GET',
+        path: `${url.pathname}${url.search}`,
+        body: raw ? JSON.parse(raw) : undefined,
+      };
+      fake.requests.push(request);
+
+      let response: { status: number; body?: unknown } | undefined;
+      for (const route of fake.routes) {
+        response = route(request, url);
+        if (response) {
+          break;
+        }
+      }
+      response ??= handleIssueRoutes(fake, request, url) ?? {
+        status: 404,
+        body: { errors: ['Not found'] },
+      };
+
+      if (response.body === undefined) {
+        res.writeHead(response.status);
+        res.end();
+      } else {
+        res.writeHead(response.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response.body));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  const { port } = server.address() as AddressInfo;
+  fake.baseUrl = `http://127.0.0.1:${port}`;
+  fake.close = () => new Promise<void>((resolve) => server.close(() => resolve()));
+  return fake;
+}
+
+/**
+ * Builds a validated config pointing at a fake server and a fresh temp output directory.
+ */
+export async function createTestConfig(baseUrl: string): Promise<RedmineConfig> {
+  const outputDir = await mkdtemp(join(tmpdir(), 'redmine-test-'));
+
+  return validateConfig({
+    baseUrl,
+    apiAccessToken: 'test-token',
+    project: { id: 1, identifier: 'web' },
+    outputDir,
+    defaults: {
+      include: ['journals'],
+      status: '*',
+      pageSize: 100,
+      concurrency: 2,
+      retry: { retries: 0, baseMs: 100 },
+    },
+    filename: {
+      pattern: '{issueId}-{slug}.md',
+      slug: { maxLength: 80, dedupe: true, lowercase: true },
+      renameOnTitleChange: false,
+    },
+    comments: {
+      anchors: {
+        start: '<!-- redmine:comments:start -->',
+        end: '<!-- redmine:comments:end -->',
+      },
+      trackBy: 'journalId',
+    },
+  });
+}
+
+export async function removeOutputDir(config: RedmineConfig): Promise<void> {
+  await rm(config.outputDir, { recursive: true, force: true });
+}
@@ -4,6 +4,8 @@ import {
   extractCommentsSection,
   removeCommentsSection,
   buildMarkdownContent,
+  extractLocalNotes,
+  removeLocalNotes,
   extractIssueIdFromFrontmatter,
   extractLastJournalId,
 } from '../src/file.util.js';
@@ -16,6 +18,7 @@ describe('file.util', () => {
       end: '<!-- redmine:comments:end -->',
     },
     trackBy: 'journalId',
+    mode: 'append',
   };
 
   describe('parseMarkdownContent', () => {
@@ -39,6 +42,12 @@ subject: Test Issue
       expect(result.comments).toBeNull();
     });
 
+    it('should reject malformed frontmatter every time', () => {
+      const content = '---\nsubject: [unclosed\n---\n';
+      expect(() => parseMarkdownContent(content)).toThrow();
+      expect(() => parseMarkdownContent(content)).toThrow();
+    });
+
     it('should parse content with comments', () => {
       const content = `---
 id: 123
@@ -114,6 +123,61 @@ More content`;
       expect(result).toContain('<!-- redmine:comments:end -->');
     });
 
+    it('should close the frontmatter with a single delimiter', () => {
+      const result = buildMarkdownContent(
+        { frontmatter: { id: 123 }, content: 'Body' },
+        commentsConfig
+      );
+
+      expect(result).toBe('---\nid: 123\n---\n\nBody');
+      expect(parseMarkdownContent(result).content.trim()).toBe('Body');
+    });
+
+    it('should serialize a full issue file exactly', () => {
+      const result = buildMarkdownContent(
+        {
+          frontmatter: {
+            id: 123,
+            subject: 'Release ---',
+            status: { id: 1, name: 'New' },
+            summary: 'First line\nSecond line',
+          },
+          content: '# Release\n\nShip it.',
+          notes: 'Check the changelog',
+          comments: '## Comments',
+        },
+        commentsConfig
+      );
+
+      expect(result).toBe(
+        [
+          '---',
+          'id: 123',
+          'subject: Release ---',
+          'status:',
+          '  id: 1',
+          '  name: New',
+          'summary: |-',
+          '  First line',
+          '  Second line',
+          '---',
+          '',
+          '# Release',
+          '',
+          'Ship it.',
+          '',
+          '<!-- local:notes:start -->',
+          'Check the changelog',
+          '<!-- local:notes:end -->',
+          '',
+          '<!-- redmine:comments:start -->',
+          '## Comments',
+          '<!-- redmine:comments:end -->',
+        ].join('\n')
+      );
+      expect(parseMarkdownContent(result).frontmatter.subject).toBe('Release ---');
+    });
+
     it('should build content without frontmatter', () => {
       const data = {
         frontmatter: {},
@@ -125,6 +189,66 @@ More content`;
     });
   });
 
+  describe('local notes', () => {
+    const withNotes = `# Title
+
+<!-- local:notes:start -->
+Use the v2 endpoint.
+<!-- local:notes:end -->
+
+<!-- redmine:comments:start -->
+## User - 2023-01-01
+<!-- redmine:comments:end -->`;
+
+    it('should extract the notes section', () => {
+      expect(extractLocalNotes(withNotes)).toBe('Use the v2 endpoint.');
+      expect(extractLocalNotes('# Title')).toBeNull();
+    });
+
+    it('should remove the notes section and close the gap', () => {
+      expect(
+        removeLocalNotes(
+          '# Title\n\n<!-- local:notes:start -->\nx\n<!-- local:notes:end -->\n\nmore'
+        )
+      ).toBe('# Title\n\nmore');
+    });
+
+    it('should keep notes out of the main content when parsing', () => {
+      const result = parseMarkdownContent(withNotes);
+      expect(result.content).toBe('# Title');
+      expect(result.notes).toBe('Use the v2 endpoint.');
+      expect(result.comments).toBe('## User - 2023-01-01');
+    });
+
+    it('should support custom anchors', () => {
+      const anchors = { start: '<!-- notes -->', end: '<!-- /notes -->' };
+      const result = parseMarkdownContent('Body\n\n<!-- notes -->\nmine\n<!-- /notes -->', anchors);
+      expect(result.notes).toBe('mine');
+      expect(result.content).toBe('Body');
+    });
+
+    it('should write notes between the content and the comments', () => {
+      const result = buildMarkdownContent(
+        {
+          frontmatter: {},
+          content: '# Title',
+          notes: 'Use the v2 endpoint.',
+          comments: '## User - 2023-01-01',
+        },
+        commentsConfig
+      );
+      expect(result).toBe(withNotes);
+    });
+
+    it('should keep an empty notes section', () => {
+      const result = buildMarkdownContent(
+        { frontmatter: {}, content: '# Title', notes: '' },
+        commentsConfig
+      );
+      expect(result).toBe('# Title\n\n<!-- local:notes:start -->\n<!-- local:notes:end -->');
+    });
+  });
+
   describe('extractIssueIdFromFrontmatter', () => {
     it('should extract number id', () => {
       const frontmatter = { id: 123 };
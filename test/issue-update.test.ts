@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { updateIssueFields } from '../src/issue-update.js';
+import type { RedmineConfig } from '../src/config.js';
+import {
+  startFakeRedmine,
+  createIssue,
+  createTestConfig,
+  removeOutputDir,
+  type FakeRedmine,
+} from './fake-redmine.js';
+
+const lookups: Record<string, unknown> = {
+  '/issue_statuses.json': {
+    issue_statuses: [
+      { id: 1, name: 'New' },
+      { id: 2, name: 'In Progress' },
+    ],
+  },
+  '/enumerations/issue_priorities.json': { issue_priorities: [{ id: 2, name: 'Normal' }] },
+  '/projects/1/memberships.json': {
+    memberships: [
+      { id: 1, project: { id: 1, name: 'Web' }, user: { id: 7, name: 'Bob Smith' }, roles: [] },
+    ],
+    total_count: 1,
+  },
+  '/projects/1/versions.json': { versions: [{ id: 12, name: 'Sprint 12' }] },
+  '/projects/1/issue_categories.json': { issue_categories: [] },
+  '/trackers.json': { trackers: [] },
+  '/users/current.json': { user: { id: 3, login: 'alice', firstname: 'Alice', lastname: 'Doe' } },
+};
+
+describe('updateIssueFields', () => {
+  let fake: FakeRedmine;
+  let config: RedmineConfig;
+
+  beforeEach(async () => {
+    fake = await startFakeRedmine([createIssue({ id: 9, subject: 'Upload' })]);
+    fake.routes.push((request, url) =>
+      request.method === 'GET' && lookups[url.pathname]
+        ? { status: 200, body: lookups[url.pathname] }
+        : undefined
+    );
+    config = await createTestConfig(fake.baseUrl);
+  });
+
+  afterEach(async () => {
+    await fake.close();
+    await removeOutputDir(config);
+  });
+
+  it('should resolve names to IDs and re-sync the issue', async () => {
+    const result = await updateIssueFields(
+      9,
+      { status: 'in progress', assignee: 'me', version: 'Sprint 12', doneRatio: 50 },
+      config
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.request?.body).toEqual({
+      issue: { status_id: 2, assigned_to_id: 3, fixed_version_id: 12, done_ratio: 50 },
+    });
+    expect(result.sync?.action).toBe('created');
+  });
+
+  it('should clear fields and resolve project members', async () => {
+    const result = await updateIssueFields(9, { assignee: 'Bob Smith', version: 'none' }, config, {
+      dryRun: true,
+    });
+
+    expect(result.request?.body).toEqual({ issue: { assigned_to_id: 7, fixed_version_id: '' } });
+    expect(fake.requests.some((request) => request.method === 'PUT')).toBe(false);
+  });
+
+  it('should reject unknown names', async () => {
+    const result = await updateIssueFields(9, { status: 'Done' }, config);
+
+    expect(result.failure).toBe('invalid');
+    expect(result.message).toBe('Unknown status "Done" (available: New, In Progress)');
+  });
+
+  it('should report a workflow rejection', async () => {
+    fake.routes.unshift((request) =>
+      request.method === 'PUT'
+        ? { status: 422, body: { errors: ['Status is not included in the list'] } }
+        : undefined
+    );
+
+    const result = await updateIssueFields(9, { status: 'In Progress' }, config);
+
+    expect(result.failure).toBe('rejected');
+    expect(result.message).toBe(
+      'Redmine rejected the update of issue 9: Status is not included in the list'
+    );
+  });
+
+  it('should notice a status change Redmine silently ignored', async () => {
+    fake.routes.unshift((request) => (request.method === 'PUT' ? { status: 204 } : undefined));
+
+    const result = await updateIssueFields(9, { status: 'In Progress' }, config);
+
+    expect(result.failure).toBe('rejected');
+    expect(result.message).toContain('kept status "New"');
+  });
+
+  it('should warn when the saved status cannot be checked', async () => {
+    // Only the status check reads the issue without includes after the update
+    fake.routes.unshift((request) =>
+      request.method === 'GET' &&
+      request.path === '/issues/9.json' &&
+      fake.requests.some((earlier) => earlier.method === 'PUT')
+        ? { status: 500, body: { errors: ['Internal error'] } }
+        : undefined
+    );
+
+    const result = await updateIssueFields(9, { status: 'In Progress' }, config);
+
+    expect(result).toMatchObject({ success: true, message: 'Updated issue 9' });
+    expect(result.warning).toContain('Could not check the saved status of issue 9');
+  });
+});
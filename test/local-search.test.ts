@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  loadLocalIssues,
+  filterLocalIssues,
+  searchLocalIssues,
+  sortLocalIssues,
+  formatIssueTable,
+  type LocalIssue,
+} from '../src/local-search.js';
+
+describe('local-search', () => {
+  const base: LocalIssue = {
+    id: 1,
+    filename: '1-login.md',
+    subject: 'Login fails on Safari',
+    status: 'New',
+    tracker: 'Bug',
+    priority: 'High',
+    assignee: 'Alice',
+    version: 'Sprint 12',
+    updatedOn: '2024-01-05T10:00:00Z',
+    createdOn: '2024-01-01T10:00:00Z',
+    content: 'The login button does nothing.',
+    comments: '',
+  };
+
+  const issues: LocalIssue[] = [
+    base,
+    {
+      ...base,
+      id: 2,
+      filename: '2-export.md',
+      subject: 'Export to CSV',
+      status: 'In Progress',
+      tracker: 'Feature',
+      assignee: 'Bob',
+      version: '',
+      updatedOn: '2024-01-02T10:00:00Z',
+      content: 'Users want CSV.',
+      comments: 'Login first, then export',
+    },
+    {
+      ...base,
+      id: 3,
+      filename: '3-docs.md',
+      subject: 'Update docs',
+      status: 'Closed',
+      tracker: 'Task',
+      assignee: '',
+      updatedOn: '2024-01-09T10:00:00Z',
+      content: 'Nothing about it.',
+    },
+  ];
+
+  describe('filterLocalIssues', () => {
+    it('should match filters case-insensitively', () => {
+      expect(filterLocalIssues(issues, { status: ['new', 'closed'] }).map((i) => i.id)).toEqual([
+        1, 3,
+      ]);
+      expect(filterLocalIssues(issues, { assignee: ['bob'] }).map((i) => i.id)).toEqual([2]);
+    });
+
+    it('should filter by updated date', () => {
+      expect(
+        filterLocalIssues(issues, { updatedSince: '2024-01-04' }).map((issue) => issue.id)
+      ).toEqual([1, 3]);
+    });
+  });
+
+  describe('searchLocalIssues', () => {
+    it('should require every term and weight subject hits', () => {
+      const matches = searchLocalIssues(issues, 'LOGIN');
+
+      expect(matches.map((match) => match.id)).toEqual([1, 2]);
+      expect(matches[0]?.score).toBeGreaterThan(matches[1]?.score ?? 0);
+      expect(searchLocalIssues(issues, 'login csv').map((match) => match.id)).toEqual([2]);
+    });
+  });
+
+  describe('sortLocalIssues', () => {
+    it('should sort by field and direction', () => {
+      expect(sortLocalIssues(issues, 'updated').map((issue) => issue.id)).toEqual([2, 1, 3]);
+      expect(sortLocalIssues(issues, 'subject', true).map((issue) => issue.id)).toEqual([3, 1, 2]);
+    });
+  });
+
+  describe('formatIssueTable', () => {
+    it('should align columns', () => {
+      const lines = formatIssueTable(issues.slice(0, 2)).split('\n');
+
+      expect(lines[0]).toMatch(/^ID\s+Status\s+Tracker/);
+      expect(lines[1]).toContain('#1  New');
+      expect(lines[2]).toContain('2024-01-02  Export to CSV');
+    });
+  });
+
+  describe('loadLocalIssues', () => {
+    let outputDir: string | undefined;
+
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      if (outputDir) {
+        await rm(outputDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should use the configured anchors and skip unreadable files', async () => {
+      outputDir = await mkdtemp(join(tmpdir(), 'redmine-local-'));
+      await writeFile(
+        join(outputDir, '1-login.md'),
+        '---\nid: 1\nsubject: Login\n---\nBody\n\n<!-- mine -->\nPrivate\n<!-- /mine -->\n'
+      );
+      await writeFile(join(outputDir, '2-broken.md'), '---\nid: [unclosed\n---\n');
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const loaded = await loadLocalIssues(outputDir, {
+        start: '<!-- mine -->',
+        end: '<!-- /mine -->',
+      });
+
+      expect(loaded.map((issue) => [issue.id, issue.content])).toEqual([[1, 'Body']]);
+      expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^⚠️ {2}Skipping 2-broken\.md: /));
+    });
+  });
+});
@@ -0,0 +1,418 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mapJournalsToComments,
+  extractNewJournals,
+  formatJournalDetail,
+  mapCustomFields,
+  mapIssueToFrontmatter,
+  getRelationEnd,
+  matchesRelationType,
+  mapTimeEntriesToSummary,
+  shouldUpdateIssue,
+  getCustomFieldNames,
+} from '../src/mappers.js';
+import type {
+  RedmineCustomField,
+  RedmineEnumerations,
+  RedmineIssue,
+  RedmineJournal,
+  RedmineTimeEntry,
+} from '../src/api.js';
+import type { CommentsConfig, CustomFieldsConfig } from '../src/config.js';
+
+describe('mappers', () => {
+  const commentsConfig: CommentsConfig = {
+    anchors: {
+      start: '<!-- redmine:comments:start -->',
+      end: '<!-- redmine:comments:end -->',
+    },
+    trackBy: 'journalId',
+    mode: 'append',
+  };
+
+  const journals: RedmineJournal[] = [
+    {
+      id: 2,
+      user: { id: 2, name: 'Bob' },
+      notes: 'Second note',
+      private_notes: true,
+      created_on: '2023-01-03T09:15:00Z',
+    },
+    {
+      id: 1,
+      user: { id: 1, name: 'Alice' },
+      notes: 'First note',
+      created_on: '2023-01-02T15:30:00Z',
+    },
+    {
+      id: 3,
+      user: { id: 1, name: 'Alice' },
+      notes: '',
+      created_on: '2023-01-04T09:15:00Z',
+    },
+  ];
+
+  const issue: RedmineIssue = {
+    id: 123,
+    subject: 'Example Issue',
+    description: 'Description',
+    status: { id: 1, name: 'New' },
+    priority: { id: 2, name: 'Normal' },
+    author: { id: 1, name: 'Alice' },
+    created_on: '2023-01-01T10:00:00Z',
+    updated_on: '2023-01-02T15:30:00Z',
+    project: { id: 1, name: 'My Project' },
+    tracker: { id: 1, name: 'Bug' },
+  };
+
+  describe('mapIssueToFrontmatter', () => {
+    it('should map the required fields only for a minimal issue', () => {
+      expect(mapIssueToFrontmatter(issue)).toEqual({
+        id: 123,
+        subject: 'Example Issue',
+        status: 'New',
+        priority: 'Normal',
+        author: 'Alice',
+        created_on: '2023-01-01T10:00:00Z',
+        updated_on: '2023-01-02T15:30:00Z',
+        project: 'My Project',
+        project_id: 1,
+        tracker: 'Bug',
+      });
+    });
+
+    it('should map planning fields', () => {
+      const frontmatter = mapIssueToFrontmatter({
+        ...issue,
+        fixed_version: { id: 3, name: 'Sprint 12' },
+        category: { id: 4, name: 'Backend' },
+        parent: { id: 100 },
+        start_date: '2023-01-01',
+        due_date: null,
+        estimated_hours: 4.5,
+        spent_hours: 2,
+        done_ratio: 50,
+        closed_on: null,
+        is_private: false,
+        watchers: [{ id: 2, name: 'Bob' }],
+      });
+
+      expect(frontmatter).toMatchObject({
+        fixed_version: 'Sprint 12',
+        category: 'Backend',
+        parent_id: 100,
+        start_date: '2023-01-01',
+        estimated_hours: 4.5,
+        spent_hours: 2,
+        done_ratio: 50,
+        is_private: false,
+        watchers: ['Bob'],
+      });
+      expect(frontmatter).not.toHaveProperty('due_date');
+      expect(frontmatter).not.toHaveProperty('closed_on');
+    });
+
+    it('should link each attachment to its own file when names repeat', () => {
+      const attachment = {
+        filename: 'screen.png',
+        filesize: 10,
+        content_type: 'image/png',
+        author: { id: 1, name: 'John Doe' },
+        created_on: '2023-01-01T10:00:00Z',
+      };
+      const frontmatter = mapIssueToFrontmatter(
+        {
+          ...issue,
+          attachments: [
+            { ...attachment, id: 7 },
+            { ...attachment, id: 9 },
+          ],
+        },
+        {
+          attachmentLinks: {
+            7: { filename: 'screen.png', path: 'attachments/1/7-screen.png' },
+            9: { filename: 'screen.png', path: 'attachments/1/9-screen.png' },
+          },
+        }
+      );
+
+      expect(frontmatter.attachments?.map((entry) => entry.local_path)).toEqual([
+        'attachments/1/7-screen.png',
+        'attachments/1/9-screen.png',
+      ]);
+    });
+  });
+
+  describe('getRelationEnd', () => {
+    const relation = { id: 1, issue_id: 123, issue_to_id: 812, relation_type: 'blocks' };
+
+    it('should return the target issue from the source side', () => {
+      expect(getRelationEnd(relation, 123)).toEqual({ issueId: 812, type: 'blocks' });
+    });
+
+    it('should return the source issue and inverse type from the target side', () => {
+      expect(getRelationEnd(relation, 812)).toEqual({ issueId: 123, type: 'blocked' });
+      expect(getRelationEnd({ ...relation, relation_type: 'relates' }, 812).type).toBe('relates');
+    });
+
+    it('should record the other end in frontmatter', () => {
+      const frontmatter = mapIssueToFrontmatter({ ...issue, id: 812, relations: [relation] });
+      expect(frontmatter.relations).toEqual([{ type: 'blocked', issue_id: 123 }]);
+    });
+  });
+
+  describe('matchesRelationType', () => {
+    it('should match both directions of a filter', () => {
+      expect(matchesRelationType('blocked', ['blocks'])).toBe(true);
+      expect(matchesRelationType('follows', ['precedes'])).toBe(true);
+      expect(matchesRelationType('relates', ['blocks', 'duplicates'])).toBe(false);
+      expect(matchesRelationType('relates', [])).toBe(true);
+    });
+  });
+
+  describe('mapJournalsToComments', () => {
+    it('should separate comments without a trailing separator', () => {
+      const comments = mapJournalsToComments(journals, commentsConfig);
+
+      expect(comments.indexOf('First note')).toBeLessThan(comments.indexOf('Second note'));
+      expect(comments.match(/^---$/gm)).toHaveLength(1);
+      expect(comments.endsWith('Second note')).toBe(true);
+    });
+
+    it('should mark private notes', () => {
+      const comments = mapJournalsToComments(journals, commentsConfig);
+      expect(comments).toMatch(/## Bob - 2023-01-03 \d{2}:\d{2} \(private\)/);
+    });
+
+    it('should return empty string without journals', () => {
+      expect(mapJournalsToComments([], commentsConfig)).toBe('');
+    });
+
+    it('should render change-only journals', () => {
+      const comments = mapJournalsToComments(
+        [
+          {
+            id: 4,
+            user: { id: 2, name: 'Bob' },
+            notes: '',
+            created_on: '2023-01-05T09:15:00Z',
+            details: [{ property: 'attr', name: 'status_id', old_value: '1', new_value: '5' }],
+          },
+        ],
+        commentsConfig,
+        {
+          enumerations: {
+            statuses: [
+              { id: 1, name: 'New' },
+              { id: 5, name: 'Resolved' },
+            ],
+            trackers: [],
+            priorities: [],
+            users: [],
+            versions: [],
+            categories: [],
+          },
+        }
+      );
+
+      expect(comments).toMatch(/^## Bob - 2023-01-05 \d{2}:\d{2}\n\n\*\*Changes:\*\*\n/);
+      expect(comments).toContain('- Status: New → Resolved');
+    });
+  });
+
+  describe('formatJournalDetail', () => {
+    const enumerations: RedmineEnumerations = {
+      statuses: [
+        { id: 1, name: 'New' },
+        { id: 5, name: 'Resolved' },
+      ],
+      trackers: [],
+      priorities: [],
+      users: [
+        { id: 12, name: 'Alice' },
+        { id: 40, name: 'Bob' },
+      ],
+      versions: [],
+      categories: [],
+    };
+
+    it('should resolve attribute ids to names', () => {
+      expect(
+        formatJournalDetail(
+          { property: 'attr', name: 'status_id', old_value: '1', new_value: '5' },
+          enumerations
+        )
+      ).toBe('Status: New → Resolved');
+      expect(
+        formatJournalDetail(
+          { property: 'attr', name: 'assigned_to_id', old_value: '12', new_value: '40' },
+          enumerations
+        )
+      ).toBe('Assignee: Alice → Bob');
+    });
+
+    it('should fall back to raw ids and mark empty values', () => {
+      expect(
+        formatJournalDetail({
+          property: 'attr',
+          name: 'assigned_to_id',
+          old_value: null,
+          new_value: '99',
+        })
+      ).toBe('Assignee: (none) → 99');
+    });
+
+    it('should summarize description changes', () => {
+      expect(
+        formatJournalDetail({
+          property: 'attr',
+          name: 'description',
+          old_value: 'old',
+          new_value: 'new',
+        })
+      ).toBe('Description updated');
+    });
+
+    it('should name custom fields', () => {
+      const names = getCustomFieldNames([{ id: 3, name: 'Customer', value: 'ACME' }], {
+        exclude: [],
+        rename: { '8': 'severity' },
+        sections: [],
+        longTextAsSections: false,
+      });
+
+      expect(
+        formatJournalDetail(
+          { property: 'cf', name: '3', old_value: 'ACME', new_value: 'Globex' },
+          undefined,
+          names
+        )
+      ).toBe('Customer: ACME → Globex');
+      expect(
+        formatJournalDetail({ property: 'cf', name: '8', new_value: 'High' }, undefined, names)
+      ).toBe('severity: (none) → High');
+      expect(formatJournalDetail({ property: 'cf', name: '9', new_value: 'x' })).toBe(
+        'Custom field #9: (none) → x'
+      );
+    });
+
+    it('should phrase attachment and relation changes', () => {
+      expect(
+        formatJournalDetail({ property: 'attachment', name: '7', new_value: 'screen.png' })
+      ).toBe('File added: screen.png');
+      expect(
+        formatJournalDetail({ property: 'attachment', name: '7', old_value: 'screen.png' })
+      ).toBe('File deleted: screen.png');
+      expect(formatJournalDetail({ property: 'relation', name: 'blocks', new_value: '812' })).toBe(
+        'Relation added: blocks #812'
+      );
+      expect(formatJournalDetail({ property: 'relation', name: 'relates', old_value: '3' })).toBe(
+        'Relation removed: relates #3'
+      );
+    });
+  });
+
+  describe('mapCustomFields', () => {
+    const customFields: RedmineCustomField[] = [
+      { id: 1, name: 'Customer', value: 'ACME' },
+      { id: 2, name: 'Sprint', value: '' },
+      { id: 3, name: 'Labels', multiple: true, value: ['backend', 'api'] },
+      { id: 4, name: 'Acceptance Criteria', value: 'Given a user\nWhen they log in' },
+    ];
+
+    const config: CustomFieldsConfig = {
+      exclude: [],
+      rename: {},
+      sections: [],
+      longTextAsSections: false,
+    };
+
+    it('should map fields to snake_case keys and drop empty values', () => {
+      expect(mapCustomFields(customFields, config)).toEqual({
+        frontmatter: {
+          customer: 'ACME',
+          labels: ['backend', 'api'],
+          acceptance_criteria: 'Given a user\nWhen they log in',
+        },
+        sections: [],
+      });
+    });
+
+    it('should apply allow lists, deny lists and renames', () => {
+      const mapped = mapCustomFields(customFields, {
+        ...config,
+        include: ['customer', 3, 'Acceptance Criteria'],
+        exclude: ['Acceptance Criteria'],
+        rename: { Customer: 'client' },
+      });
+
+      expect(mapped.frontmatter).toEqual({ client: 'ACME', labels: ['backend', 'api'] });
+    });
+
+    it('should render long text fields as sections when configured', () => {
+      const mapped = mapCustomFields(customFields, {
+        ...config,
+        longTextAsSections: true,
+        sections: ['Labels'],
+      });
+
+      expect(mapped.frontmatter).toEqual({ customer: 'ACME' });
+      expect(mapped.sections).toEqual([
+        { title: 'Labels', value: '- backend\n- api' },
+        { title: 'Acceptance Criteria', value: 'Given a user\nWhen they log in' },
+      ]);
+    });
+  });
+
+  describe('extractNewJournals', () => {
+    it('should return journals after the last synced id', () => {
+      expect(extractNewJournals(journals, 1).map((journal) => journal.id)).toEqual([2, 3]);
+    });
+
+    it('should return all journals without a last synced id', () => {
+      expect(extractNewJournals(journals, null)).toHaveLength(3);
+    });
+  });
+
+  describe('mapTimeEntriesToSummary', () => {
+    const entry = (
+      user: string,
+      activity: string,
+      hours: number
+    ): Pick<RedmineTimeEntry, 'user' | 'activity' | 'hours'> => ({
+      user: { id: user.length, name: user },
+      activity: { id: activity.length, name: activity },
+      hours,
+    });
+
+    it('should total hours per user and activity', () => {
+      const summary = mapTimeEntriesToSummary([
+        entry('Bob', 'Testing', 0.5),
+        entry('Alice', 'Development', 1.25),
+        entry('Alice', 'Development', 2),
+        entry('Alice', 'Design', 1),
+      ] as RedmineTimeEntry[]);
+
+      expect(summary).toBe(
+        [
+          '| User | Activity | Hours |',
+          '| --- | --- | ---: |',
+          '| Alice | Design | 1 |',
+          '| Alice | Development | 3.25 |',
+          '| Bob | Testing | 0.5 |',
+          '| **Total** | | **4.75** |',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('shouldUpdateIssue', () => {
+    it('should update when spent hours changed without a newer updated_on', () => {
+      const frontmatter = { updated_on: issue.updated_on, spent_hours: 2 };
+
+      expect(shouldUpdateIssue({ ...issue, spent_hours: 2 }, frontmatter)).toBe(false);
+      expect(shouldUpdateIssue({ ...issue, spent_hours: 3.5 }, frontmatter)).toBe(true);
+      expect(shouldUpdateIssue(issue, frontmatter)).toBe(false);
+    });
+  });
+});
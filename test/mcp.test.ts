@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { createMcpHandler, runMcpServer } from '../src/mcp.js';
+import { loadSyncState } from '../src/sync-state.js';
+import type { RedmineConfig } from '../src/config.js';
+import {
+  startFakeRedmine,
+  createIssue,
+  createTestConfig,
+  removeOutputDir,
+  type FakeRedmine,
+} from './fake-redmine.js';
+
+describe('mcp', () => {
+  let fake: FakeRedmine;
+  let config: RedmineConfig;
+
+  beforeAll(async () => {
+    fake = await startFakeRedmine([
+      createIssue({ id: 42, subject: 'Login fails', description: 'Steps to reproduce' }),
+      createIssue({ id: 43 }),
+      createIssue({ id: 44 }),
+    ]);
+    fake.routes.push((_request, url) =>
+      url.pathname === '/projects/1/search.json'
+        ? {
+            status: 200,
+            body: {
+              results: [
+                {
+                  id: 42,
+                  title: 'Bug #42 (New): Login fails',
+                  type: 'issue',
+                  url: 'http://redmine/issues/42',
+                  description: '',
+                  datetime: '2024-01-02T10:00:00Z',
+                },
+              ],
+              total_count: 1,
+              offset: 0,
+              limit: 25,
+            },
+          }
+        : undefined
+    );
+    config = await createTestConfig(fake.baseUrl);
+  });
+
+  afterAll(async () => {
+    await fake.close();
+    await removeOutputDir(config);
+  });
+
+  const call = (
+    handle: ReturnType<typeof createMcpHandler>,
+    id: number,
+    method: string,
+    params = {}
+  ) => handle({ jsonrpc: '2.0', id, method, params });
+
+  it('should negotiate the protocol and list tools', async () => {
+    const handle = createMcpHandler(config, { version: '1.2.3' });
+
+    const initialized = await call(handle, 1, 'initialize', { protocolVersion: '2024-11-05' });
+    expect(initialized?.result).toMatchObject({
+      protocolVersion: '2024-11-05',
+      serverInfo: { name: 'redmine', version: '1.2.3' },
+    });
+
+    expect(await handle({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+
+    const tools = await call(handle, 2, 'tools/list');
+    expect((tools?.result as { tools: Array<{ name: string }> }).tools.map((t) => t.name)).toEqual([
+      'get_issue',
+      'search_issues',
+      'sync_issue',
+      'sync_project',
+      'add_comment',
+    ]);
+  });
+
+  it('should fetch and search issues', async () => {
+    const handle = createMcpHandler(config);
+
+    const fetched = await call(handle, 1, 'tools/call', {
+      name: 'get_issue',
+      arguments: { issue: '#42' },
+    });
+    expect(JSON.stringify(fetched?.result)).toContain('# #42 Login fails');
+
+    const found = await call(handle, 2, 'tools/call', {
+      name: 'search_issues',
+      arguments: { query: 'login' },
+    });
+    expect(JSON.stringify(found?.result)).toContain('Bug #42 (New): Login fails');
+  });
+
+  it('should sync an issue and expose it as a resource', async () => {
+    const handle = createMcpHandler(config);
+
+    const synced = await call(handle, 1, 'tools/call', {
+      name: 'sync_issue',
+      arguments: { issue: 42 },
+    });
+    expect(synced?.result).not.toHaveProperty('isError');
+
+    const listed = await call(handle, 2, 'resources/list');
+    expect(listed?.result).toEqual({
+      resources: [
+        { uri: 'redmine://issues/42', name: '42-login-fails.md', mimeType: 'text/markdown' },
+      ],
+    });
+
+    const read = await call(handle, 3, 'resources/read', { uri: 'redmine://issues/42' });
+    expect(JSON.stringify(read?.result)).toContain('subject: Login fails');
+
+    const missing = await call(handle, 4, 'resources/read', { uri: 'redmine://issues/7' });
+    expect(missing?.error?.code).toBe(-32002);
+  });
+
+  it('should add comments', async () => {
+    const handle = createMcpHandler(config);
+
+    const commented = await call(handle, 1, 'tools/call', {
+      name: 'add_comment',
+      arguments: { issue: 42, notes: 'Looking into it', private: true },
+    });
+
+    expect(commented?.result).not.toHaveProperty('isError');
+    expect(fake.requests).toContainEqual({
+      method: 'PUT',
+      path: '/issues/42.json',
+      body: { issue: { notes: 'Looking into it', private_notes: true } },
+    });
+  });
+
+  it('should report tool failures and unknown methods', async () => {
+    const handle = createMcpHandler(config);
+
+    const failed = await call(handle, 1, 'tools/call', {
+      name: 'get_issue',
+      arguments: { issue: 404 },
+    });
+    expect(failed?.result).toMatchObject({ isError: true });
+
+    const unknown = await call(handle, 2, 'resources/subscribe');
+    expect(unknown?.error?.code).toBe(-32601);
+  });
+
+  it('should speak newline-delimited JSON-RPC over streams', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let written = '';
+    output.on('data', (chunk) => (written += chunk));
+
+    const running = runMcpServer(config, { input, output });
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+    input.write('not json\n');
+    input.end();
+    await running;
+
+    const responses = written
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(responses).toContainEqual({ jsonrpc: '2.0', id: 1, result: {} });
+    expect(responses).toContainEqual({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32700, message: 'Parse error' },
+    });
+  });
+
+  it('should keep the manifest entries of overlapping syncs', async () => {
+    const handle = createMcpHandler(config);
+
+    const responses = await Promise.all(
+      [43, 44].map((issue, index) =>
+        call(handle, 20 + index, 'tools/call', { name: 'sync_issue', arguments: { issue } })
+      )
+    );
+
+    expect(responses.map((response) => response?.error)).toEqual([undefined, undefined]);
+    const state = await loadSyncState(config.outputDir);
+    expect(state.issues['43']).toBeDefined();
+    expect(state.issues['44']).toBeDefined();
+  });
+});
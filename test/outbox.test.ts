@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm } from 'node:fs/promises';
+import { queueOutboxEntry, loadOutbox, flushOutbox, dropOutboxEntries } from '../src/outbox.js';
+import { syncIssue } from '../src/sync-issue.js';
+import { getStatePath } from '../src/sync-state.js';
+import type { RedmineConfig } from '../src/config.js';
+import type { RedmineIssue } from '../src/api.js';
+import {
+  startFakeRedmine,
+  createIssue,
+  createTestConfig,
+  removeOutputDir,
+  type FakeRedmine,
+} from './fake-redmine.js';
+
+describe('outbox', () => {
+  let fake: FakeRedmine;
+  let config: RedmineConfig;
+  let issue: RedmineIssue;
+
+  const notes = () =>
+    fake.requests.flatMap((request) => {
+      const body = request.body as { issue?: { notes?: string } } | undefined;
+      return request.method === 'PUT' && body?.issue?.notes ? [body.issue.notes] : [];
+    });
+
+  beforeEach(async () => {
+    issue = createIssue({ id: 5, subject: 'Checkout' });
+    fake = await startFakeRedmine([issue, createIssue({ id: 6 })]);
+    config = await createTestConfig(fake.baseUrl);
+    await syncIssue(5, config);
+  });
+
+  afterEach(async () => {
+    await fake.close();
+    await removeOutputDir(config);
+  });
+
+  it('should queue entries with the synced updated_on', async () => {
+    const first = await queueOutboxEntry(config.outputDir, {
+      action: 'comment',
+      issueId: 5,
+      notes: 'Offline note',
+    });
+    const second = await queueOutboxEntry(config.outputDir, { action: 'push', issueId: 6 });
+
+    expect(first).toMatchObject({ id: 1, expectedUpdatedOn: '2024-01-02T10:00:00Z', attempts: 0 });
+    expect(second.id).toBe(2);
+    expect(second.expectedUpdatedOn).toBeUndefined();
+    expect((await loadOutbox(config.outputDir)).entries).toHaveLength(2);
+  });
+
+  it('should replay entries in order and empty the outbox', async () => {
+    await queueOutboxEntry(config.outputDir, { action: 'comment', issueId: 5, notes: 'First' });
+    await queueOutboxEntry(config.outputDir, { action: 'comment', issueId: 5, notes: 'Second' });
+
+    const result = await flushOutbox(config);
+
+    // The second comment sees the first one's updated_on, which is not a conflict
+    expect(result).toMatchObject({ success: true, sent: 2, conflicts: 0, unreachable: false });
+    expect(notes()).toEqual(['First', 'Second']);
+    expect((await loadOutbox(config.outputDir)).entries).toEqual([]);
+  });
+
+  it('should hold entries of an issue that changed in Redmine meanwhile', async () => {
+    await queueOutboxEntry(config.outputDir, { action: 'comment', issueId: 5, notes: 'First' });
+    await queueOutboxEntry(config.outputDir, { action: 'comment', issueId: 5, notes: 'Second' });
+    issue.updated_on = '2024-01-05T10:00:00Z';
+
+    const result = await flushOutbox(config);
+
+    expect(result.results.map((entry) => entry.status)).toEqual(['conflict', 'pending']);
+    expect(notes()).toEqual([]);
+    expect((await loadOutbox(config.outputDir)).entries).toHaveLength(2);
+
+    const forced = await flushOutbox(config, { force: true });
+    expect(forced.sent).toBe(2);
+    expect(notes()).toEqual(['First', 'Second']);
+  });
+
+  it('should keep entries Redmine refused and report them until dropped', async () => {
+    await queueOutboxEntry(config.outputDir, { action: 'comment', issueId: 99, notes: 'Lost' });
+    await queueOutboxEntry(config.outputDir, { action: 'comment', issueId: 5, notes: 'Fine' });
+
+    const result = await flushOutbox(config);
+    expect(result.results.map((entry) => entry.status)).toEqual(['failed', 'sent']);
+
+    const [failed] = (await loadOutbox(config.outputDir)).entries;
+    expect(failed).toMatchObject({ id: 1, failed: true, attempts: 1 });
+    expect((await flushOutbox(config)).failed).toBe(1);
+
+    expect(await dropOutboxEntries(config.outputDir, { failed: true })).toHaveLength(1);
+    expect((await loadOutbox(config.outputDir)).entries).toEqual([]);
+  });
+
+  it('should stop and keep everything queued while Redmine is unreachable', async () => {
+    await queueOutboxEntry(config.outputDir, { action: 'comment', issueId: 5, notes: 'First' });
+    await queueOutboxEntry(config.outputDir, { action: 'comment', issueId: 6, notes: 'Second' });
+    await fake.close();
+
+    const result = await flushOutbox(config);
+
+    expect(result.unreachable).toBe(true);
+    expect(result.pending).toBe(2);
+    expect((await loadOutbox(config.outputDir)).entries.map((entry) => entry.attempts)).toEqual([
+      0, 0,
+    ]);
+  });
+
+  it('should not resend entries when a later entry throws', async () => {
+    await queueOutboxEntry(config.outputDir, { action: 'comment', issueId: 5, notes: 'Sent' });
+    await queueOutboxEntry(config.outputDir, { action: 'push', issueId: 5 });
+    // An unreadable manifest makes the push throw after the comment went out
+    await rm(getStatePath(config.outputDir));
+    await mkdir(getStatePath(config.outputDir));
+
+    await expect(flushOutbox(config)).rejects.toThrow();
+
+    expect(notes()).toEqual(['Sent']);
+    expect((await loadOutbox(config.outputDir)).entries.map((entry) => entry.action)).toEqual([
+      'push',
+    ]);
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pushNewIssue, pushNewIssues } from '../src/push-new.js';
+import type { RedmineConfig } from '../src/config.js';
+import {
+  startFakeRedmine,
+  createIssue,
+  createTestConfig,
+  removeOutputDir,
+  type FakeRedmine,
+} from './fake-redmine.js';
+
+const lookups: Record<string, unknown> = {
+  '/issue_statuses.json': { issue_statuses: [{ id: 1, name: 'New' }] },
+  '/trackers.json': {
+    trackers: [
+      { id: 1, name: 'Bug' },
+      { id: 2, name: 'Feature' },
+    ],
+  },
+  '/enumerations/issue_priorities.json': {
+    issue_priorities: [
+      { id: 2, name: 'Normal' },
+      { id: 3, name: 'High' },
+    ],
+  },
+  '/projects/1/memberships.json': {
+    memberships: [
+      { id: 1, project: { id: 1, name: 'Web' }, user: { id: 7, name: 'Bob Smith' }, roles: [] },
+    ],
+    total_count: 1,
+  },
+  '/projects/1/versions.json': { versions: [] },
+  '/projects/1/issue_categories.json': { issue_categories: [] },
+  '/projects/1.json': {
+    project: { id: 1, name: 'Web', issue_custom_fields: [{ id: 5, name: 'Customer Name' }] },
+  },
+  '/users/current.json': { user: { id: 3, login: 'alice', firstname: 'Alice', lastname: 'Doe' } },
+};
+
+const notes = '<!-- local:notes:start -->\nCall the customer first\n<!-- local:notes:end -->';
+
+describe('pushNewIssue', () => {
+  let fake: FakeRedmine;
+  let config: RedmineConfig;
+  let draftsDir: string;
+
+  beforeEach(async () => {
+    fake = await startFakeRedmine([createIssue({ id: 40, subject: 'Existing' })]);
+    fake.routes.push((request, url) =>
+      request.method === 'GET' && lookups[url.pathname]
+        ? { status: 200, body: lookups[url.pathname] }
+        : undefined
+    );
+    config = await createTestConfig(fake.baseUrl);
+    draftsDir = await mkdtemp(join(tmpdir(), 'redmine-drafts-'));
+  });
+
+  afterEach(async () => {
+    await fake.close();
+    await removeOutputDir(config);
+    await rm(draftsDir, { recursive: true, force: true });
+  });
+
+  it('should create the issue and turn the draft into its synced file', async () => {
+    const draftPath = join(draftsDir, 'export.md');
+    await writeFile(
+      draftPath,
+      [
+        '---',
+        'subject: Export invoices',
+        'tracker: feature',
+        'priority: High',
+        'assignee: me',
+        'parent: "#40"',
+        'due_date: 2026-11-01',
+        'custom_fields:',
+        '  customer_name: ACME',
+        '---',
+        '',
+        'Export all invoices as CSV.',
+        '',
+        notes,
+        '',
+      ].join('\n')
+    );
+
+    const result = await pushNewIssue(draftPath, config);
+
+    expect(result.success).toBe(true);
+    expect(result.issueId).toBe(41);
+    expect(result.request?.body.issue).toEqual({
+      project_id: 1,
+      subject: 'Export invoices',
+      description: 'Export all invoices as CSV.',
+      tracker_id: 2,
+      priority_id: 3,
+      assigned_to_id: 3,
+      parent_issue_id: 40,
+      due_date: '2026-11-01',
+      custom_fields: [{ id: 5, value: 'ACME' }],
+    });
+
+    await expect(stat(draftPath)).rejects.toThrow();
+    const written = await readFile(join(config.outputDir, '41-export-invoices.md'), 'utf-8');
+    expect(written).toMatch(/^---\nid: 41\n/);
+    expect(written).toContain('Export all invoices as CSV.');
+    expect(written).toContain('Call the customer first');
+  });
+
+  it('should take the subject from a leading heading', async () => {
+    const draftPath = join(draftsDir, 'draft.md');
+    await writeFile(draftPath, '# Broken login\n\nThe login form spins forever.\n');
+
+    const result = await pushNewIssue(draftPath, config, { dryRun: true });
+
+    expect(result.request?.body.issue).toEqual({
+      project_id: 1,
+      subject: 'Broken login',
+      description: 'The login form spins forever.',
+    });
+    expect(fake.requests.some((request) => request.method === 'POST')).toBe(false);
+    expect(await readFile(draftPath, 'utf-8')).toContain('# Broken login');
+  });
+
+  it('should refuse drafts that are already synced or cannot be resolved', async () => {
+    const syncedPath = join(draftsDir, 'synced.md');
+    await writeFile(syncedPath, '---\nid: 40\nsubject: Existing\n---\n');
+    const unknownPath = join(draftsDir, 'unknown.md');
+    await writeFile(unknownPath, '---\nsubject: Task\ntracker: Epic\n---\n');
+
+    const synced = await pushNewIssue(syncedPath, config);
+    const unknown = await pushNewIssue(unknownPath, config);
+
+    expect(synced.failure).toBe('invalid');
+    expect(synced.message).toContain('already belongs to issue 40');
+    expect(unknown.failure).toBe('invalid');
+    expect(unknown.message).toBe('Unknown tracker "Epic" (available: Bug, Feature)');
+    expect(fake.requests.some((request) => request.method === 'POST')).toBe(false);
+  });
+
+  it('should keep the draft when Redmine rejects it', async () => {
+    fake.routes.unshift((request) =>
+      request.method === 'POST'
+        ? { status: 422, body: { errors: ['Tracker is not included in the list'] } }
+        : undefined
+    );
+    const draftPath = join(draftsDir, 'draft.md');
+    await writeFile(draftPath, '---\nsubject: Task\n---\n');
+
+    const result = await pushNewIssue(draftPath, config);
+
+    expect(result.failure).toBe('rejected');
+    expect(result.message).toBe('Redmine rejected the draft: Tracker is not included in the list');
+    expect(await readFile(draftPath, 'utf-8')).toContain('subject: Task');
+  });
+
+  it('should link the draft when the issue was created but its file could not be named', async () => {
+    config.filename.pattern = '{parentPath}/{issueId}-{slug}.md';
+    fake.routes.unshift((request, url) =>
+      url.pathname === '/issues/40.json' ? { status: 503 } : undefined
+    );
+    const draftPath = join(draftsDir, 'draft.md');
+    await writeFile(draftPath, '---\nsubject: Task\nparent: 40\n---\n');
+
+    const result = await pushNewIssue(draftPath, config);
+
+    expect(result).toMatchObject({ success: false, issueId: 41, failure: 'rejected' });
+    expect(result.message).toMatch(/^Created issue 41, but writing its file failed: /);
+    expect(await readFile(draftPath, 'utf-8')).toMatch(/^---\nid: 41\n/);
+
+    const again = await pushNewIssues(draftsDir, config);
+    expect(again).toMatchObject({ created: 0, failed: 0, skipped: 1 });
+    expect(fake.requests.filter((request) => request.method === 'POST')).toHaveLength(1);
+  });
+
+  it('should report why the sync of the created issue failed', async () => {
+    fake.routes.unshift((request, url) =>
+      url.pathname === '/issues/41.json'
+        ? { status: 403, body: { errors: ['Forbidden'] } }
+        : undefined
+    );
+    const draftPath = join(draftsDir, 'draft.md');
+    await writeFile(draftPath, '---\nsubject: Task\n---\n');
+
+    const result = await pushNewIssue(draftPath, config);
+
+    expect(result).toMatchObject({ success: false, issueId: 41, failure: 'rejected' });
+    const linked = await readFile(join(config.outputDir, '41-task.md'), 'utf-8');
+    expect(linked).toMatch(/^---\nid: 41\nsubject: Task\n/);
+
+    const again = await pushNewIssue(join(config.outputDir, '41-task.md'), config);
+    expect(again.message).toContain('already belongs to issue 41');
+    expect(fake.requests.filter((request) => request.method === 'POST')).toHaveLength(1);
+  });
+
+  it('should push every draft of a directory and skip synced files', async () => {
+    await writeFile(join(draftsDir, 'a.md'), '# First\n');
+    await writeFile(join(draftsDir, 'b.md'), '# Second\n');
+    await writeFile(join(draftsDir, 'c.md'), '---\nid: 40\nsubject: Existing\n---\n');
+
+    const batch = await pushNewIssues(draftsDir, config);
+
+    expect(batch).toMatchObject({ success: true, created: 2, failed: 0, skipped: 1 });
+    expect(batch.results.map((result) => result.issueId)).toEqual([41, 42]);
+    expect(await readdir(draftsDir)).toEqual(['c.md']);
+    expect((await readdir(config.outputDir)).filter((name) => name.endsWith('.md'))).toEqual([
+      '41-first.md',
+      '42-second.md',
+    ]);
+  });
+
+  it('should report a malformed draft and keep pushing the others', async () => {
+    await writeFile(join(draftsDir, 'a.md'), '# First\n');
+    await writeFile(join(draftsDir, 'b.md'), '---\nsubject: [unclosed\n---\n');
+    await writeFile(join(draftsDir, 'c.md'), '# Third\n');
+
+    const batch = await pushNewIssues(draftsDir, config);
+
+    expect(batch).toMatchObject({ success: false, created: 2, failed: 1, skipped: 0 });
+    expect(batch.results.map((result) => result.failure ?? result.issueId)).toEqual([
+      41,
+      'invalid',
+      42,
+    ]);
+    expect(batch.results[1]?.message).toMatch(/^Failed to read .*b\.md: /);
+    expect(await readdir(draftsDir)).toEqual(['b.md']);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { pushIssue } from '../src/push.js';
+import { syncIssue } from '../src/sync-issue.js';
+import type { RedmineConfig } from '../src/config.js';
+import type { RedmineIssue } from '../src/api.js';
+import {
+  startFakeRedmine,
+  createIssue,
+  createTestConfig,
+  removeOutputDir,
+  type FakeRedmine,
+} from './fake-redmine.js';
+
+const description = 'First line\n\nMiddle line\n\nLast line';
+
+describe('pushIssue', () => {
+  let fake: FakeRedmine;
+  let config: RedmineConfig;
+  let issue: RedmineIssue;
+  let filePath: string;
+
+  const editFile = async (from: string, to: string) => {
+    const content = await readFile(filePath, 'utf-8');
+    await writeFile(filePath, content.replace(from, to));
+  };
+
+  // Changes the description in Redmine the way a web edit would, with a journal
+  const editRemote = (from: string, to: string) => {
+    const oldValue = issue.description ?? '';
+    issue.description = oldValue.replace(from, to);
+    issue.updated_on = '2024-01-03T10:00:00Z';
+    issue.journals = [
+      {
+        id: 1,
+        user: { id: 2, name: 'Bob' },
+        notes: '',
+        created_on: '2024-01-03T10:00:00Z',
+        details: [
+          {
+            property: 'attr',
+            name: 'description',
+            old_value: oldValue,
+            new_value: issue.description,
+          },
+        ],
+      },
+    ];
+  };
+
+  const puts = () => fake.requests.filter((request) => request.method === 'PUT');
+
+  beforeEach(async () => {
+    issue = createIssue({ id: 5, subject: 'Checkout', description });
+    fake = await startFakeRedmine([issue]);
+    config = await createTestConfig(fake.baseUrl);
+    const sync = await syncIssue(5, config);
+    filePath = join(config.outputDir, sync.filename);
+  });
+
+  afterEach(async () => {
+    await fake.close();
+    await removeOutputDir(config);
+  });
+
+  it('should report an unchanged issue without sending anything', async () => {
+    const result = await pushIssue(5, config);
+
+    expect(result).toMatchObject({ success: true, action: 'unchanged' });
+    expect(puts()).toHaveLength(0);
+  });
+
+  it('should upload local subject and description edits and re-sync', async () => {
+    await editFile('subject: Checkout', 'subject: Checkout page');
+    await editFile('First line', 'First line, edited');
+
+    const result = await pushIssue(5, config);
+
+    expect(result.success).toBe(true);
+    expect(result.message).toBe('Pushed subject and description of issue 5');
+    expect(puts()[0]?.body).toEqual({
+      issue: {
+        subject: 'Checkout page',
+        description: 'First line, edited\n\nMiddle line\n\nLast line',
+      },
+    });
+    expect(result.sync?.action).toBe('updated');
+    expect((await pushIssue(5, config)).action).toBe('unchanged');
+  });
+
+  it('should refuse with a three-way report when Redmine changed meanwhile', async () => {
+    await editFile('First line', 'First line, edited');
+    editRemote('Last line', 'Last line, remote');
+
+    const result = await pushIssue(5, config);
+
+    expect(result.failure).toBe('conflict');
+    expect(result.conflict).toMatchObject({
+      localUpdatedOn: '2024-01-02T10:00:00Z',
+      remoteUpdatedOn: '2024-01-03T10:00:00Z',
+      mergeable: true,
+    });
+    expect(result.conflict?.fields).toHaveLength(1);
+    expect(result.conflict?.fields[0]?.localDiff).toContain('+First line, edited');
+    expect(result.conflict?.fields[0]?.remoteDiff).toContain('+Last line, remote');
+    expect(puts()).toHaveLength(0);
+  });
+
+  it('should merge changes to different lines', async () => {
+    await editFile('First line', 'First line, edited');
+    editRemote('Last line', 'Last line, remote');
+
+    const result = await pushIssue(5, config, { strategy: 'merge' });
+
+    expect(result.success).toBe(true);
+    expect(puts()[0]?.body).toEqual({
+      issue: { description: 'First line, edited\n\nMiddle line\n\nLast line, remote' },
+    });
+    expect(await readFile(filePath, 'utf-8')).toContain('Last line, remote');
+  });
+
+  it('should only overwrite overlapping changes when forced', async () => {
+    await editFile('Middle line', 'Middle line, local');
+    editRemote('Middle line', 'Middle line, remote');
+
+    const merged = await pushIssue(5, config, { strategy: 'merge' });
+    expect(merged.failure).toBe('conflict');
+    expect(merged.conflict?.mergeable).toBe(false);
+
+    const forced = await pushIssue(5, config, { strategy: 'force' });
+    expect(forced.success).toBe(true);
+    expect(issue.description).toBe('First line\n\nMiddle line, local\n\nLast line');
+  });
+
+  it('should fail for issues that were never synced', async () => {
+    const result = await pushIssue(99, config);
+
+    expect(result.failure).toBe('not-found');
+    expect(fake.requests.some((request) => request.path.startsWith('/issues/99'))).toBe(false);
+  });
+});
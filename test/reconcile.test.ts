@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { access, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { findStaleIssueIds, reconcileProject } from '../src/reconcile.js';
+import { syncIssue } from '../src/sync-issue.js';
+import { syncProject } from '../src/sync-project.js';
+import { RedmineApiClient } from '../src/api.js';
+import type { RedmineConfig } from '../src/config.js';
+import {
+  ARCHIVE_DIRNAME,
+  createEmptyState,
+  getStatePath,
+  loadSyncState,
+  setStateEntry,
+  type SyncState,
+} from '../src/sync-state.js';
+import {
+  startFakeRedmine,
+  createIssue,
+  createTestConfig,
+  removeOutputDir,
+  type FakeRedmine,
+} from './fake-redmine.js';
+
+const exists = (path: string) =>
+  access(path).then(
+    () => true,
+    () => false
+  );
+
+describe('reconcile', () => {
+  describe('findStaleIssueIds', () => {
+    const state = createEmptyState();
+    setStateEntry(state, 1, { filename: '1.md', updated_on: '', contentHash: '', projectId: 10 });
+    setStateEntry(state, 2, { filename: '2.md', updated_on: '', contentHash: '', projectId: 10 });
+    setStateEntry(state, 3, { filename: '3.md', updated_on: '', contentHash: '', projectId: 20 });
+    setStateEntry(state, 4, { filename: '4.md', updated_on: '', contentHash: '' });
+
+    it('should return project issues missing from the remote scope', () => {
+      expect(findStaleIssueIds(state, 10, new Set([1]))).toEqual([2]);
+    });
+
+    it('should ignore issues synced from other projects or of unknown project', () => {
+      expect(findStaleIssueIds(state, 10, new Set([1, 2]))).toEqual([]);
+    });
+  });
+
+  describe('reconcileProject', () => {
+    let fake: FakeRedmine;
+    let config: RedmineConfig;
+    let state: SyncState;
+
+    beforeEach(async () => {
+      // 2 moved to project 2, 3 was deleted, 4 no longer matches the status filter
+      fake = await startFakeRedmine([
+        createIssue({ id: 1 }),
+        createIssue({ id: 2, project: { id: 2, name: 'Mobile' } }),
+        createIssue({ id: 4 }),
+      ]);
+      config = await createTestConfig(fake.baseUrl);
+      state = createEmptyState();
+      for (const id of [1, 2, 3, 4]) {
+        await writeFile(join(config.outputDir, `${id}.md`), `---\nid: ${id}\n---\n`);
+        setStateEntry(state, id, {
+          filename: `${id}.md`,
+          updated_on: '2024-01-02T10:00:00Z',
+          contentHash: '',
+          projectId: 1,
+        });
+      }
+    });
+
+    afterEach(async () => {
+      await fake.close();
+      await removeOutputDir(config);
+    });
+
+    const reconcile = (options: Parameters<typeof reconcileProject>[5] = {}) =>
+      reconcileProject(
+        new RedmineApiClient(config),
+        state,
+        1,
+        config.outputDir,
+        new Set([1]),
+        options
+      );
+
+    it('should classify stale issues and keep them without pruning', async () => {
+      const result = await reconcile();
+
+      expect(result).toMatchObject({ remoteIssues: 1, localIssues: 4 });
+      expect(result.stale).toEqual([
+        { issueId: 2, filename: '2.md', reason: 'moved', action: 'kept' },
+        { issueId: 3, filename: '3.md', reason: 'deleted', action: 'kept' },
+        { issueId: 4, filename: '4.md', reason: 'out-of-scope', action: 'kept' },
+      ]);
+      expect(await exists(join(config.outputDir, '2.md'))).toBe(true);
+      expect(Object.keys(state.issues)).toHaveLength(4);
+    });
+
+    it('should move stale files into the archive', async () => {
+      const result = await reconcile({ prune: 'archive' });
+
+      expect(result.stale.map((issue) => issue.action)).toEqual([
+        'archived',
+        'archived',
+        'archived',
+      ]);
+      for (const id of [2, 3, 4]) {
+        expect(await exists(join(config.outputDir, `${id}.md`))).toBe(false);
+        expect(await exists(join(config.outputDir, ARCHIVE_DIRNAME, `${id}.md`))).toBe(true);
+      }
+      expect(Object.keys(state.issues)).toEqual(['1']);
+    });
+
+    it('should delete stale files', async () => {
+      const result = await reconcile({ prune: 'delete' });
+
+      expect(result.stale.map((issue) => issue.action)).toEqual(['deleted', 'deleted', 'deleted']);
+      expect(await exists(join(config.outputDir, '2.md'))).toBe(false);
+      expect(await exists(join(config.outputDir, ARCHIVE_DIRNAME))).toBe(false);
+      expect(await exists(join(config.outputDir, '1.md'))).toBe(true);
+      expect(Object.keys(state.issues)).toEqual(['1']);
+    });
+
+    it('should change nothing in a dry run', async () => {
+      const result = await reconcile({ prune: 'delete', dryRun: true });
+
+      expect(result.stale).toHaveLength(3);
+      expect(await exists(join(config.outputDir, '2.md'))).toBe(true);
+      expect(Object.keys(state.issues)).toHaveLength(4);
+    });
+  });
+
+  describe('pruning after a state rebuild', () => {
+    let fake: FakeRedmine;
+    let config: RedmineConfig;
+
+    beforeEach(async () => {
+      fake = await startFakeRedmine([
+        createIssue({ id: 1 }),
+        createIssue({ id: 50, project: { id: 2, name: 'Mobile' } }),
+      ]);
+      config = await createTestConfig(fake.baseUrl);
+    });
+
+    afterEach(async () => {
+      await fake.close();
+      await removeOutputDir(config);
+    });
+
+    it('should restore the project of each file and keep other projects', async () => {
+      await syncIssue(1, config);
+      await syncIssue(50, config);
+      await rm(getStatePath(config.outputDir));
+
+      expect((await loadSyncState(config.outputDir)).issues['50']?.projectId).toBe(2);
+
+      const result = await syncProject(config, { prune: 'archive' });
+
+      expect(result.reconciliation?.stale).toEqual([]);
+      expect(await exists(join(config.outputDir, '50-issue-50.md'))).toBe(true);
+    });
+
+    it('should never prune files of unknown project', async () => {
+      await syncIssue(50, config);
+      const filePath = join(config.outputDir, '50-issue-50.md');
+      // A file written before the project ID was recorded in the frontmatter
+      const content = await readFile(filePath, 'utf-8');
+      await writeFile(filePath, content.replace(/^project_id: \d+\n/m, ''));
+      await rm(getStatePath(config.outputDir));
+
+      const result = await syncProject(config, { prune: 'delete' });
+
+      expect(result.reconciliation?.stale).toEqual([]);
+      expect(await exists(filePath)).toBe(true);
+    });
+
+    it('should backfill the project of unchanged issues', async () => {
+      await syncIssue(1, config);
+      const filePath = join(config.outputDir, '1-issue-1.md');
+      const content = await readFile(filePath, 'utf-8');
+      await writeFile(filePath, content.replace(/^project_id: \d+\n/m, ''));
+      await rm(getStatePath(config.outputDir));
+
+      await syncProject(config);
+
+      expect((await loadSyncState(config.outputDir)).issues['1']?.projectId).toBe(1);
+    });
+  });
+});
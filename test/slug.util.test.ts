@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { generateSlug, generateFilename } from '../src/slug.util.js';
+import { generateSlug, generateFilename, buildParentPath } from '../src/slug.util.js';
 import type { FilenameConfig } from '../src/config.js';
 
 describe('slug.util', () => {
@@ -90,5 +90,21 @@ describe('slug.util', () => {
       const filename = generateFilename(456, 'Another Test', customConfig);
       expect(filename).toBe('another-test-456.md');
     });
+
+    it('should nest files under the parent path', () => {
+      const nestedConfig = { ...config, pattern: '{parentPath}/{issueId}-{slug}.md' };
+      const parentPath = buildParentPath(
+        [
+          { id: 100, subject: 'Epic' },
+          { id: 120, subject: 'User Story' },
+        ],
+        config.slug
+      );
+
+      expect(generateFilename(130, 'Task', nestedConfig, undefined, parentPath)).toBe(
+        '100-epic/120-user-story/130-task.md'
+      );
+      expect(generateFilename(100, 'Epic', nestedConfig)).toBe('100-epic.md');
+    });
   });
 });
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getMissingIncludes, syncIssue } from '../src/sync-issue.js';
+import { hashContent } from '../src/sync-state.js';
+import type { RedmineConfig } from '../src/config.js';
+import type { RedmineIssue } from '../src/api.js';
+import {
+  startFakeRedmine,
+  createIssue,
+  createTestConfig,
+  removeOutputDir,
+  type FakeRedmine,
+} from './fake-redmine.js';
+
+describe('syncIssue', () => {
+  let fake: FakeRedmine;
+  let config: RedmineConfig;
+  let issue: RedmineIssue;
+
+  beforeEach(async () => {
+    issue = createIssue({ id: 7, subject: 'Checkout', description: 'Pay by card' });
+    fake = await startFakeRedmine([issue]);
+    config = await createTestConfig(fake.baseUrl);
+  });
+
+  afterEach(async () => {
+    await fake.close();
+    await removeOutputDir(config);
+  });
+
+  describe('getMissingIncludes', () => {
+    it('should list the includes the issue lacks', () => {
+      const listed = createIssue({ id: 7, journals: undefined, time_entries: [] });
+
+      expect(
+        getMissingIncludes(listed, ['journals', 'time_entries', 'relations', 'unknown'])
+      ).toEqual(['journals', 'relations', 'unknown']);
+    });
+  });
+
+  describe('dry run', () => {
+    it('should preview a new file without writing it', async () => {
+      const result = await syncIssue(7, config, { dryRun: true });
+
+      expect(result.message).toBe('Would create issue 7 (dry run)');
+      expect(result.preview?.beforeHash).toBeUndefined();
+      expect(result.preview?.diff).toMatch(/^--- \/dev\/null\n\+\+\+ b\/7-checkout\.md\n/);
+      expect(result.preview?.diff).toContain('+Pay by card');
+      await expect(readFile(join(config.outputDir, '7-checkout.md'))).rejects.toThrow();
+    });
+
+    it('should diff the current file against what a sync would write', async () => {
+      await syncIssue(7, config);
+      const before = await readFile(join(config.outputDir, '7-checkout.md'), 'utf-8');
+      issue.description = 'Pay by card or invoice';
+      issue.updated_on = '2024-02-01T10:00:00Z';
+
+      const result = await syncIssue(7, config, { dryRun: true });
+
+      expect(result.message).toBe('Would update issue 7 (dry run)');
+      expect(result.preview?.beforeHash).toBe(hashContent(before));
+      expect(result.preview?.diff).toContain('\n-updated_on: ');
+      expect(result.preview?.diff).toContain('\n+Pay by card or invoice\n');
+
+      await syncIssue(7, config);
+      const after = await readFile(join(config.outputDir, '7-checkout.md'), 'utf-8');
+      expect(result.preview?.afterHash).toBe(hashContent(after));
+    });
+  });
+
+  describe('local edits', () => {
+    const filePath = () => join(config.outputDir, '7-checkout.md');
+
+    const updateRemote = () => {
+      issue.description = 'Pay by card or invoice';
+      issue.updated_on = '2024-02-01T10:00:00Z';
+    };
+
+    beforeEach(async () => {
+      await syncIssue(7, config);
+    });
+
+    it('should preserve local notes across updates', async () => {
+      const synced = await readFile(filePath(), 'utf-8');
+      await writeFile(
+        filePath(),
+        `${synced}\n\n<!-- local:notes:start -->\nTouches the billing module.\n<!-- local:notes:end -->\n`
+      );
+      updateRemote();
+
+      const result = await syncIssue(7, config);
+
+      const updated = await readFile(filePath(), 'utf-8');
+      expect(result.action).toBe('updated');
+      expect(result.localEdits).toBeUndefined();
+      expect(updated).toContain('Pay by card or invoice');
+      expect(updated).toContain(
+        '<!-- local:notes:start -->\nTouches the billing module.\n<!-- local:notes:end -->'
+      );
+    });
+
+    it('should keep edits outside the notes by default', async () => {
+      const edited = (await readFile(filePath(), 'utf-8')).replace('Pay by card', 'Pay by cash');
+      await writeFile(filePath(), edited);
+      updateRemote();
+
+      const result = await syncIssue(7, config);
+
+      expect(result.action).toBe('skipped');
+      expect(result.localEdits).toBe('kept');
+      expect(await readFile(filePath(), 'utf-8')).toBe(edited);
+    });
+
+    it('should save edits outside the notes to a conflict file', async () => {
+      config.localNotes.onLocalEdits = 'conflict';
+      const edited = (await readFile(filePath(), 'utf-8')).replace('Pay by card', 'Pay by cash');
+      await writeFile(filePath(), edited);
+      updateRemote();
+
+      const result = await syncIssue(7, config);
+
+      expect(result.action).toBe('updated');
+      expect(result.localEdits).toBe('saved');
+      expect(await readFile(`${filePath()}.conflict`, 'utf-8')).toBe(edited);
+      expect(await readFile(filePath(), 'utf-8')).toContain('Pay by card or invoice');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { resolveUpdatedSince, syncProject, toRedmineTimestamp } from '../src/sync-project.js';
+import {
+  createEmptyState,
+  getProjectWatermark,
+  getStateEntry,
+  loadSyncState,
+  saveSyncState,
+  setProjectWatermark,
+} from '../src/sync-state.js';
+import type { RedmineConfig } from '../src/config.js';
+import {
+  startFakeRedmine,
+  createIssue,
+  createTestConfig,
+  removeOutputDir,
+  type FakeRedmine,
+} from './fake-redmine.js';
+
+describe('sync-project', () => {
+  describe('toRedmineTimestamp', () => {
+    it('should drop milliseconds', () => {
+      expect(toRedmineTimestamp(new Date('2024-01-02T10:00:00.123Z'))).toBe('2024-01-02T10:00:00Z');
+    });
+  });
+
+  describe('resolveUpdatedSince', () => {
+    const state = createEmptyState();
+    setProjectWatermark(state, 1, {
+      status: '*',
+      lastUpdatedOn: '2024-01-02T10:00:00Z',
+      lastSuccessfulRunAt: '2024-01-03T00:00:00.000Z',
+    });
+
+    it('should subtract the overlap from the watermark', () => {
+      expect(resolveUpdatedSince(state, 1, '*', 300, {})).toBe('2024-01-02T09:55:00Z');
+    });
+
+    it('should prefer an explicit date', () => {
+      expect(resolveUpdatedSince(state, 1, '*', 300, { updatedSince: '2023-01-01' })).toBe(
+        '2023-01-01'
+      );
+    });
+
+    it('should ignore the watermark for full syncs', () => {
+      expect(resolveUpdatedSince(state, 1, '*', 300, { full: true })).toBeUndefined();
+    });
+
+    it('should ignore a watermark recorded for another status filter', () => {
+      expect(resolveUpdatedSince(state, 1, 'open', 300, {})).toBeUndefined();
+    });
+
+    it('should return undefined without a watermark', () => {
+      expect(resolveUpdatedSince(state, 2, '*', 300, {})).toBeUndefined();
+    });
+  });
+
+  describe('syncProject', () => {
+    let fake: FakeRedmine;
+    let config: RedmineConfig;
+
+    beforeEach(async () => {
+      fake = await startFakeRedmine([createIssue({ id: 1, updated_on: '2024-07-01T10:00:00Z' })]);
+      config = await createTestConfig(fake.baseUrl);
+
+      const state = createEmptyState();
+      setProjectWatermark(state, 1, {
+        status: '*',
+        lastUpdatedOn: '2024-01-02T10:00:00Z',
+        lastSuccessfulRunAt: '2024-01-03T00:00:00.000Z',
+      });
+      await saveSyncState(config.outputDir, state);
+    });
+
+    afterEach(async () => {
+      await fake.close();
+      await removeOutputDir(config);
+    });
+
+    const lastUpdatedOn = async () =>
+      getProjectWatermark(await loadSyncState(config.outputDir), 1)?.lastUpdatedOn;
+
+    it('should keep the watermark after a run from a later explicit date', async () => {
+      const result = await syncProject(config, { updatedSince: '2024-06-01' });
+
+      expect(result.success).toBe(true);
+      expect(await lastUpdatedOn()).toBe('2024-01-02T10:00:00Z');
+    });
+
+    it('should report an invalid rate limit instead of throwing', async () => {
+      const result = await syncProject(config, { requestsPerSecond: -1 });
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]?.error).toContain('Invalid rate limit -1');
+    });
+
+    it('should advance the watermark when the run covered it', async () => {
+      await syncProject(config, { updatedSince: '2023-12-01' });
+
+      expect(await lastUpdatedOn()).toBe('2024-07-01T10:00:00Z');
+    });
+
+    it('should skip the per-issue request for listed issues that did not change', async () => {
+      const issueGets = () =>
+        fake.requests.filter(
+          (request) => request.method === 'GET' && request.path.startsWith('/issues/1.json')
+        );
+
+      await syncProject(config, { updatedSince: '2023-12-01' });
+      // The list has no journals, so the new issue is fetched with them
+      expect(issueGets()).toHaveLength(1);
+
+      const result = await syncProject(config, { updatedSince: '2023-12-01' });
+      expect(result.skipped).toBe(1);
+      expect(issueGets()).toHaveLength(1);
+    });
+
+    it('should advance the watermark past kept local edits and check them again', async () => {
+      const filePath = join(config.outputDir, '1-issue-1.md');
+      await syncProject(config, { updatedSince: '2023-12-01' });
+      await writeFile(filePath, `${await readFile(filePath, 'utf-8')}Edited locally\n`);
+      Object.assign(fake.issues[0] ?? {}, {
+        description: 'Changed remotely',
+        updated_on: '2024-08-01T10:00:00Z',
+      });
+
+      const kept = await syncProject(config);
+      expect(kept.success).toBe(true);
+      expect(kept.localEditsKept?.map((entry) => entry.issueId)).toEqual([1]);
+      expect(await lastUpdatedOn()).toBe('2024-08-01T10:00:00Z');
+      expect(getStateEntry(await loadSyncState(config.outputDir), 1)?.localEditsKept).toBe(true);
+
+      // The issue is no longer listed as changed, but is still checked by ID
+      fake.routes.unshift((request, url) =>
+        url.pathname === '/issues.json'
+          ? { status: 200, body: { issues: [], total_count: 0, offset: 0, limit: 25 } }
+          : undefined
+      );
+      const again = await syncProject(config);
+      expect(again.totalIssues).toBe(1);
+      expect(again.localEditsKept?.map((entry) => entry.issueId)).toEqual([1]);
+
+      config.localNotes.onLocalEdits = 'overwrite';
+      const overwritten = await syncProject(config);
+      expect(overwritten.updated).toBe(1);
+      expect(overwritten.localEditsKept).toBeUndefined();
+      expect(await readFile(filePath, 'utf-8')).toContain('Changed remotely');
+      expect(
+        getStateEntry(await loadSyncState(config.outputDir), 1)?.localEditsKept
+      ).toBeUndefined();
+    });
+  });
+});
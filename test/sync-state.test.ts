@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  loadSyncState,
+  saveSyncState,
+  rebuildSyncState,
+  hashContent,
+  normalizeTimestamp,
+  getStateEntry,
+  setStateEntry,
+  removeStateEntry,
+  createEmptyState,
+  getProjectWatermark,
+  setProjectWatermark,
+} from '../src/sync-state.js';
+
+describe('sync-state', () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(join(tmpdir(), 'redmine-state-'));
+  });
+
+  afterEach(async () => {
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  describe('rebuildSyncState', () => {
+    it('should rebuild entries from frontmatter of local files', async () => {
+      const content = `---
+id: 123
+updated_on: '2023-01-02T15:30:00Z'
+lastJournalId: 456
+---
+Description`;
+      await writeFile(join(outputDir, '123-old-title.md'), content);
+      await mkdir(join(outputDir, 'nested'));
+      await writeFile(join(outputDir, 'nested', '124-child.md'), '---\nid: 124\n---\nChild');
+      await writeFile(join(outputDir, 'notes.md'), '# Not an issue');
+
+      const state = await rebuildSyncState(outputDir);
+
+      expect(Object.keys(state.issues)).toEqual(['123', '124']);
+      expect(getStateEntry(state, 123)).toEqual({
+        filename: '123-old-title.md',
+        updated_on: '2023-01-02T15:30:00Z',
+        lastJournalId: 456,
+        contentHash: hashContent(content),
+      });
+      expect(getStateEntry(state, 124)?.filename).toBe('nested/124-child.md');
+    });
+
+    it('should keep the most recently updated file for duplicate ids', async () => {
+      await writeFile(
+        join(outputDir, '123-old.md'),
+        "---\nid: 123\nupdated_on: '2023-01-01T00:00:00Z'\n---\n"
+      );
+      await writeFile(
+        join(outputDir, '123-new.md'),
+        "---\nid: 123\nupdated_on: '2023-02-01T00:00:00Z'\n---\n"
+      );
+
+      const state = await rebuildSyncState(outputDir);
+      expect(getStateEntry(state, 123)?.filename).toBe('123-new.md');
+    });
+
+    it('should keep watermarks and the hashes of files that did not move', async () => {
+      const watermark = {
+        status: '*',
+        lastUpdatedOn: '2024-01-02T10:00:00Z',
+        lastSuccessfulRunAt: '2024-01-03T00:00:00.000Z',
+      };
+      const previous = createEmptyState();
+      setProjectWatermark(previous, 1, watermark);
+      const hashes = { contentHash: 'old', managedHash: 'managed', baseHash: 'base' };
+      setStateEntry(previous, 5, { filename: '5-kept.md', updated_on: '', ...hashes });
+      setStateEntry(previous, 6, { filename: '6-old-name.md', updated_on: '', ...hashes });
+      await saveSyncState(outputDir, previous);
+      await writeFile(join(outputDir, '5-kept.md'), '---\nid: 5\nproject_id: 1\n---\n');
+      await writeFile(join(outputDir, '6-new-name.md'), '---\nid: 6\n---\n');
+
+      const state = await rebuildSyncState(outputDir);
+
+      expect(getProjectWatermark(state, 1)).toEqual(watermark);
+      expect(getStateEntry(state, 5)).toMatchObject({ managedHash: 'managed', baseHash: 'base' });
+      expect(getStateEntry(state, 5)?.contentHash).toBe(
+        hashContent('---\nid: 5\nproject_id: 1\n---\n')
+      );
+      expect(getStateEntry(state, 6)?.managedHash).toBeUndefined();
+      expect(getStateEntry(state, 6)?.baseHash).toBeUndefined();
+    });
+
+    it('should return an empty state for a missing directory', async () => {
+      const state = await rebuildSyncState(join(outputDir, 'missing'));
+      expect(state).toEqual(createEmptyState());
+    });
+  });
+
+  describe('loadSyncState', () => {
+    it('should round-trip a saved manifest', async () => {
+      const state = createEmptyState();
+      setStateEntry(state, 7, {
+        filename: '7-issue.md',
+        updated_on: '2023-01-01T00:00:00Z',
+        contentHash: 'abc',
+      });
+
+      await saveSyncState(outputDir, state);
+      expect(await loadSyncState(outputDir)).toEqual(state);
+    });
+
+    it('should rebuild when the manifest is missing', async () => {
+      await writeFile(join(outputDir, '9-issue.md'), '---\nid: 9\n---\n');
+
+      const state = await loadSyncState(outputDir);
+      expect(getStateEntry(state, 9)?.filename).toBe('9-issue.md');
+    });
+  });
+
+  describe('removeStateEntry', () => {
+    it('should remove an entry', () => {
+      const state = createEmptyState();
+      setStateEntry(state, 1, { filename: '1.md', updated_on: '', contentHash: '' });
+      removeStateEntry(state, 1);
+      expect(getStateEntry(state, 1)).toBeUndefined();
+    });
+  });
+
+  describe('normalizeTimestamp', () => {
+    it('should convert dates to ISO strings', () => {
+      expect(normalizeTimestamp(new Date('2023-01-01T00:00:00Z'))).toBe('2023-01-01T00:00:00.000Z');
+      expect(normalizeTimestamp('2023-01-01')).toBe('2023-01-01');
+      expect(normalizeTimestamp(undefined)).toBe('');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { syncIssueTree, syncRelatedIssues } from '../src/sync-tree.js';
+import type { RedmineConfig } from '../src/config.js';
+import type { RedmineRelation } from '../src/api.js';
+import {
+  startFakeRedmine,
+  createIssue,
+  createTestConfig,
+  removeOutputDir,
+  type FakeRedmine,
+} from './fake-redmine.js';
+
+describe('sync-tree', () => {
+  let fake: FakeRedmine | undefined;
+  let config: RedmineConfig;
+
+  const issueGets = (id: number) =>
+    fake?.requests.filter(
+      (request) => request.method === 'GET' && request.path.startsWith(`/issues/${id}.json`)
+    ) ?? [];
+
+  afterEach(async () => {
+    await fake?.close();
+    await removeOutputDir(config);
+    fake = undefined;
+  });
+
+  describe('syncIssueTree', () => {
+    beforeEach(async () => {
+      fake = await startFakeRedmine([
+        createIssue({ id: 1, children: [{ id: 2 }] }),
+        createIssue({ id: 2, parent: { id: 1 }, children: [{ id: 3 }] }),
+        // A broken hierarchy that loops back to the root
+        createIssue({ id: 3, parent: { id: 2 }, children: [{ id: 1 }] }),
+      ]);
+      config = await createTestConfig(fake.baseUrl);
+    });
+
+    it('should sync the parent chain, fetching each ancestor once', async () => {
+      const result = await syncIssueTree(3, config, { withParent: true });
+
+      expect(result.success).toBe(true);
+      expect(result.issues.map((issue) => issue.issueId)).toEqual([1, 2, 3]);
+      expect(result.created).toBe(3);
+      expect(issueGets(1)).toHaveLength(1);
+      expect(issueGets(2)).toHaveLength(1);
+      expect(issueGets(1)[0]?.path).toContain('include=journals%2Cchildren');
+    });
+
+    it('should sync children recursively and stop at loops', async () => {
+      const result = await syncIssueTree(1, config, { withChildren: true });
+
+      expect(result.success).toBe(true);
+      expect(result.issues.map((issue) => issue.issueId)).toEqual([1, 2, 3]);
+      expect(issueGets(1)).toHaveLength(1);
+    });
+
+    it('should record a missing child without failing the rest', async () => {
+      fake?.issues.splice(2, 1);
+
+      const result = await syncIssueTree(1, config, { withChildren: true });
+
+      expect(result.success).toBe(false);
+      expect(result.created).toBe(2);
+      expect(result.errors.map((error) => error.issueId)).toEqual([3]);
+    });
+  });
+
+  describe('syncRelatedIssues', () => {
+    const relation = (id: number, from: number, to: number, type = 'relates'): RedmineRelation => ({
+      id,
+      issue_id: from,
+      issue_to_id: to,
+      relation_type: type,
+    });
+
+    beforeEach(async () => {
+      // 10 relates to 11 relates back to 10, 11 relates to 12, and 10 blocks 13
+      const cycle = relation(1, 10, 11);
+      fake = await startFakeRedmine([
+        createIssue({ id: 10, relations: [cycle, relation(3, 10, 13, 'blocks')] }),
+        createIssue({ id: 11, relations: [cycle, relation(2, 11, 12)] }),
+        createIssue({ id: 12, relations: [relation(2, 11, 12)] }),
+        createIssue({ id: 13, relations: [relation(3, 10, 13, 'blocks')] }),
+      ]);
+      config = await createTestConfig(fake.baseUrl);
+    });
+
+    it('should follow one hop by default and visit each issue once', async () => {
+      const result = await syncRelatedIssues(10, config);
+
+      expect(result.success).toBe(true);
+      expect(result.graph.nodes.map((node) => [node.issueId, node.depth])).toEqual([
+        [10, 0],
+        [11, 1],
+        [13, 1],
+      ]);
+      expect(result.graph.edges).toEqual([
+        { from: 10, to: 11, type: 'relates' },
+        { from: 10, to: 13, type: 'blocks' },
+      ]);
+      expect(issueGets(10)).toHaveLength(1);
+      expect(issueGets(12)).toHaveLength(0);
+    });
+
+    it('should follow a second hop without revisiting the cycle', async () => {
+      const result = await syncRelatedIssues(10, config, { depth: 2 });
+
+      expect(result.graph.nodes.map((node) => [node.issueId, node.depth])).toEqual([
+        [10, 0],
+        [11, 1],
+        [13, 1],
+        [12, 2],
+      ]);
+      // The relation between 10 and 11 is reported by both issues but recorded once
+      expect(result.graph.edges).toHaveLength(3);
+      expect(result.created).toBe(4);
+      for (const id of [10, 11, 12, 13]) {
+        expect(issueGets(id)).toHaveLength(1);
+      }
+    });
+
+    it('should only follow the requested relation types, in either direction', async () => {
+      const relates = await syncRelatedIssues(10, config, { relationTypes: ['relates'] });
+      expect(relates.graph.nodes.map((node) => node.issueId)).toEqual([10, 11]);
+
+      const blocked = await syncRelatedIssues(13, config, { relationTypes: ['blocks'] });
+      expect(blocked.graph.nodes.map((node) => node.issueId)).toEqual([13, 10]);
+      expect(blocked.graph.edges).toEqual([{ from: 13, to: 10, type: 'blocked' }]);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  textileToMarkdown,
+  convertTextileInline,
+  convertRedmineText,
+} from '../src/textile.util.js';
+
+describe('textile.util', () => {
+  describe('convertTextileInline', () => {
+    it('should convert emphasis', () => {
+      expect(convertTextileInline('Some *bold* and -deleted- text')).toBe(
+        'Some **bold** and ~~deleted~~ text'
+      );
+    });
+
+    it('should convert inline code without touching its content', () => {
+      expect(convertTextileInline('Run @npm *test*@ now')).toBe('Run `npm *test*` now');
+    });
+
+    it('should convert links', () => {
+      expect(convertTextileInline('See "the docs":https://example.com/docs.')).toBe(
+        'See [the docs](https://example.com/docs).'
+      );
+      expect(convertTextileInline('"Issue (title)":/issues/1')).toBe('[Issue](/issues/1)');
+    });
+
+    it('should convert images', () => {
+      expect(convertTextileInline('!screenshot.png!')).toBe('![](screenshot.png)');
+      expect(convertTextileInline('!>https://example.com/a.png(Alt text)!')).toBe(
+        '![Alt text](https://example.com/a.png)'
+      );
+    });
+
+    it('should leave dates and hyphenated words alone', () => {
+      expect(convertTextileInline('Due 2023-01-01 for well-known users')).toBe(
+        'Due 2023-01-01 for well-known users'
+      );
+    });
+  });
+
+  describe('textileToMarkdown', () => {
+    it('should convert headings and block quotes', () => {
+      expect(textileToMarkdown('h2. Steps\n\nbq. Quoted')).toBe('## Steps\n\n> Quoted');
+    });
+
+    it('should convert nested lists', () => {
+      expect(textileToMarkdown('* one\n** nested\n# first\n## second')).toBe(
+        '- one\n  - nested\n1. first\n   1. second'
+      );
+    });
+
+    it('should convert pre blocks with a language', () => {
+      const textile = '<pre><code class="ruby">\ndef *x*\nend\n</code></pre>';
+      expect(textileToMarkdown(textile)).toBe('```ruby\ndef *x*\nend\n```');
+    });
+
+    it('should convert bc. blocks', () => {
+      expect(textileToMarkdown('bc. npm install\n\nDone')).toBe('```\nnpm install\n```\n\nDone');
+    });
+
+    it('should convert tables', () => {
+      const textile = '|_. Name |_. Value |\n| a | *b* |';
+      expect(textileToMarkdown(textile)).toBe('| Name | Value |\n| --- | --- |\n| a | **b** |');
+    });
+  });
+
+  describe('convertRedmineText', () => {
+    it('should keep markdown untouched', () => {
+      expect(convertRedmineText('h2. Not converted', 'markdown')).toBe('h2. Not converted');
+      expect(convertRedmineText('h2. Not converted', 'commonmark')).toBe('h2. Not converted');
+    });
+
+    it('should convert textile', () => {
+      expect(convertRedmineText('h2. Converted', 'textile')).toBe('## Converted');
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { logTime } from '../src/time-log.js';
+import { syncIssue } from '../src/sync-issue.js';
+import { pushIssue } from '../src/push.js';
+import type { RedmineConfig } from '../src/config.js';
+import type { RedmineIssue, RedmineTimeEntry, RedmineTimeEntryCreate } from '../src/api.js';
+import {
+  startFakeRedmine,
+  createIssue,
+  createTestConfig,
+  removeOutputDir,
+  type FakeRedmine,
+} from './fake-redmine.js';
+
+const activities = [
+  { id: 9, name: 'Design' },
+  { id: 10, name: 'Development' },
+];
+
+describe('logTime', () => {
+  let fake: FakeRedmine;
+  let config: RedmineConfig;
+  let issue: RedmineIssue;
+  let timeEntries: RedmineTimeEntry[];
+
+  const posts = () => fake.requests.filter((request) => request.method === 'POST');
+
+  beforeEach(async () => {
+    issue = createIssue({ id: 5, subject: 'Checkout', description: 'Body', spent_hours: 0 });
+    timeEntries = [];
+    fake = await startFakeRedmine([issue]);
+
+    // Creating a time entry changes the issue's spent hours but not its updated_on
+    fake.routes.push((request, url) => {
+      if (url.pathname === '/enumerations/time_entry_activities.json') {
+        return { status: 200, body: { time_entry_activities: activities } };
+      }
+      if (url.pathname === '/time_entries.json' && request.method === 'GET') {
+        return {
+          status: 200,
+          body: { time_entries: timeEntries, total_count: timeEntries.length },
+        };
+      }
+      if (url.pathname === '/time_entries.json' && request.method === 'POST') {
+        const create = (request.body as { time_entry: RedmineTimeEntryCreate }).time_entry;
+        const activity = activities.find((candidate) => candidate.id === create.activity_id);
+        const timeEntry: RedmineTimeEntry = {
+          id: timeEntries.length + 1,
+          project: issue.project,
+          issue: { id: create.issue_id },
+          user: { id: 1, name: 'Alice' },
+          activity: activity ?? { id: 10, name: 'Development' },
+          hours: create.hours,
+          comments: create.comments ?? '',
+          spent_on: create.spent_on ?? '2024-01-03',
+          created_on: '2024-01-03T10:00:00Z',
+          updated_on: '2024-01-03T10:00:00Z',
+        };
+        timeEntries.push(timeEntry);
+        issue.spent_hours = (issue.spent_hours ?? 0) + create.hours;
+        return { status: 201, body: { time_entry: timeEntry } };
+      }
+      return undefined;
+    });
+
+    config = await createTestConfig(fake.baseUrl);
+    config.defaults.include = ['journals', 'time_entries'];
+  });
+
+  afterEach(async () => {
+    await fake.close();
+    await removeOutputDir(config);
+  });
+
+  it('should create a time entry with the activity resolved by name', async () => {
+    const result = await logTime(5, 1.5, config, {
+      activity: 'design',
+      comment: 'Wireframes',
+      spentOn: '2024-01-03',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toBe('Logged 1.5 h of Design on issue 5');
+    expect(posts()[0]?.body).toEqual({
+      time_entry: {
+        issue_id: 5,
+        hours: 1.5,
+        activity_id: 9,
+        comments: 'Wireframes',
+        spent_on: '2024-01-03',
+      },
+    });
+  });
+
+  it('should re-sync the issue with the time summary', async () => {
+    const sync = await syncIssue(5, config);
+    expect(await readFile(join(config.outputDir, sync.filename), 'utf-8')).not.toContain(
+      '## Time Spent'
+    );
+
+    await logTime(5, 2, config, { activity: 'Development' });
+    const result = await logTime(5, 0.5, config, { activity: 'Design' });
+
+    expect(result.sync?.action).toBe('updated');
+    const content = await readFile(join(config.outputDir, sync.filename), 'utf-8');
+    expect(content).toContain('spent_hours: 2.5');
+    expect(content).toContain('## Time Spent');
+    expect(content).toContain('| Alice | Development | 2 |');
+    expect(content).toContain('| **Total** | | **2.5** |');
+    // The summary is not part of the description
+    expect((await pushIssue(5, config)).action).toBe('unchanged');
+  });
+
+  it('should reject unknown activities and bad hours without sending anything', async () => {
+    const unknown = await logTime(5, 1, config, { activity: 'Meetings' });
+    expect(unknown).toMatchObject({ success: false, failure: 'invalid' });
+    expect(unknown.message).toBe('Unknown activity "Meetings" (available: Design, Development)');
+
+    expect((await logTime(5, 0, config)).failure).toBe('invalid');
+    expect((await logTime(5, 1, config, { spentOn: '03.01.2024' })).failure).toBe('invalid');
+    expect(posts()).toHaveLength(0);
+  });
+
+  it('should only build the request in a dry run', async () => {
+    const result = await logTime(5, 1, config, { dryRun: true });
+
+    expect(result.success).toBe(true);
+    expect(result.request).toEqual({
+      method: 'POST',
+      path: '/time_entries.json',
+      body: { time_entry: { issue_id: 5, hours: 1 } },
+    });
+    expect(posts()).toHaveLength(0);
+  });
+});